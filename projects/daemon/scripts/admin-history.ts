@@ -0,0 +1,23 @@
+import * as algokit from '@algorandfoundation/algokit-utils'
+import { getAdminHistory } from '../src/admin-history'
+import { APP_SPEC } from '../src/clients/RandomnessBeaconClient'
+
+// prints who managed and paused the beacon over time, reads the indexer from INDEXER_SERVER, INDEXER_PORT, INDEXER_TOKEN
+const appId = process.argv[2] ?? process.env.BEACON_APP_ID
+if (appId === undefined) {
+  throw Error('usage: npm run admin-history -- <appId> (or set BEACON_APP_ID)')
+}
+
+const { indexer } = algokit.AlgorandClient.fromEnvironment().client
+
+getAdminHistory(indexer, BigInt(appId), APP_SPEC)
+  .then((events) => {
+    for (const { name, args, txId, round, roundTime } of events) {
+      const fields = Object.entries(args).map(([field, value]) => `${field}=${value}`)
+      console.log(`${new Date(roundTime * 1000).toISOString()} round ${round} ${name} ${fields.join(' ')} (${txId})`)
+    }
+  })
+  .catch((err: Error) => {
+    console.error(err.message)
+    process.exitCode = 1
+  })
@@ -0,0 +1,96 @@
+import { Arc56Contract } from '@algorandfoundation/algokit-utils/types/app-arc56'
+import { ABIType, indexerModels } from 'algosdk'
+import assert from 'node:assert/strict'
+import { createHash } from 'node:crypto'
+import { describe, it } from 'node:test'
+import { ADMIN_EVENT_NAMES, decodeAdminEvents, getAdminEventDecoders } from './admin-history'
+
+const MANAGER = 'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAY5HFKQ'
+const PROPOSED_MANAGER = '7777777777777777777777777777777777777777777777777774MSJUVU'
+
+/**
+ * ARC-56 spec with the admin events only, as the beacon describes them
+ */
+const APP_SPEC = {
+  events: ADMIN_EVENT_NAMES.map((name) => ({
+    name,
+    args:
+      name === 'ManagerHandoverProposed'
+        ? [
+            { type: 'address', name: 'manager' },
+            { type: 'address', name: 'proposedManager' },
+            { type: 'uint64', name: 'readyAt' },
+          ]
+        : [{ type: 'address', name: 'account' }],
+  })),
+} as unknown as Arc56Contract
+
+/**
+ * Encode an ARC-28 event log
+ */
+const encodeLog = (signature: string, type: string, values: (string | bigint)[]): Uint8Array => {
+  const selector = createHash('sha512-256').update(signature).digest().subarray(0, 4)
+
+  return Buffer.concat([selector, ABIType.from(type).encode(values)])
+}
+
+const makeAppCall = (appId: bigint, logs: Uint8Array[], innerTxns: indexerModels.Transaction[] = []) =>
+  ({
+    applicationTransaction: { applicationId: appId },
+    logs,
+    innerTxns,
+    confirmedRound: 42n,
+    roundTime: 1_700_000_000,
+  }) as unknown as indexerModels.Transaction
+
+describe('admin history', () => {
+  it('decodes the admin events of the app in log order, including inner transactions', () => {
+    const decoders = getAdminEventDecoders(APP_SPEC)
+    const proposed = encodeLog('ManagerHandoverProposed(address,address,uint64)', '(address,address,uint64)', [
+      MANAGER,
+      PROPOSED_MANAGER,
+      60n,
+    ])
+    const deleted = encodeLog('ManagerDeleted(address)', '(address)', [PROPOSED_MANAGER])
+    const txn = makeAppCall(1n, [proposed], [makeAppCall(1n, [deleted])])
+
+    assert.deepEqual(decodeAdminEvents(txn, 1n, 'TXID', decoders), [
+      {
+        name: 'ManagerHandoverProposed',
+        args: { manager: MANAGER, proposedManager: PROPOSED_MANAGER, readyAt: 60n },
+        txId: 'TXID',
+        round: 42n,
+        roundTime: 1_700_000_000,
+      },
+      {
+        name: 'ManagerDeleted',
+        args: { account: PROPOSED_MANAGER },
+        txId: 'TXID',
+        round: 42n,
+        roundTime: 1_700_000_000,
+      },
+    ])
+  })
+
+  it('skips other logs and the logs of other apps', () => {
+    const decoders = getAdminEventDecoders(APP_SPEC)
+    const deleted = encodeLog('ManagerDeleted(address)', '(address)', [MANAGER])
+    const otherEvent = encodeLog('RequestCreated(uint64)', '(uint64)', [1n])
+    const txn = makeAppCall(1n, [otherEvent], [makeAppCall(2n, [deleted])])
+
+    assert.deepEqual(decodeAdminEvents(txn, 1n, 'TXID', decoders), [])
+  })
+
+  it('does not decode events whose fields differ from the app spec', () => {
+    const decoders = getAdminEventDecoders(APP_SPEC)
+    const deleted = encodeLog('ManagerDeleted(address,uint64)', '(address,uint64)', [MANAGER, 1n])
+
+    assert.deepEqual(decodeAdminEvents(makeAppCall(1n, [deleted]), 1n, 'TXID', decoders), [])
+  })
+
+  it('requires every admin event in the app spec', () => {
+    const appSpec = { events: APP_SPEC.events?.filter((event) => event.name !== 'Paused') } as Arc56Contract
+
+    assert.throws(() => getAdminEventDecoders(appSpec), /the app spec has no Paused event/)
+  })
+})
@@ -0,0 +1,179 @@
+import { Arc56Contract } from '@algorandfoundation/algokit-utils/types/app-arc56'
+import { ABIType, Indexer, indexerModels } from 'algosdk'
+import { createHash } from 'node:crypto'
+
+/**
+ * Names of the ARC-28 events logged by Managable, Pausable and Fulfillable, their fields are read from the ARC-56 spec
+ */
+export const ADMIN_EVENT_NAMES = [
+  'ManagerHandoverProposed',
+  'ManagerHandoverCancelled',
+  'ManagerUpdated',
+  'ManagerDeleted',
+  'Paused',
+  'Unpaused',
+  'RequesterPaused',
+  'RequesterUnpaused',
+  'PauserHandoverProposed',
+  'PauserHandoverCancelled',
+  'PauserUpdated',
+  'FulfillerAdded',
+  'FulfillerRemoved',
+] as const
+
+export type AdminEventName = (typeof ADMIN_EVENT_NAMES)[number]
+
+/**
+ * Admin event rebuilt from the logs of an app call
+ */
+export type AdminEvent = {
+  /**
+   * the event name
+   */
+  name: AdminEventName
+  /**
+   * the event fields, addresses are encoded as strings and integers as bigints
+   */
+  args: Record<string, string | bigint>
+  /**
+   * the ID of the top level transaction that logged the event
+   */
+  txId: string
+  /**
+   * the round the event was logged in
+   */
+  round: bigint
+  /**
+   * when the round was confirmed, in seconds since epoch
+   */
+  roundTime: number
+}
+
+/**
+ * Decoder of an admin event, built from its ARC-56 description
+ */
+export type AdminEventDecoder = {
+  /**
+   * the event name
+   */
+  name: AdminEventName
+  /**
+   * the event field names, in order
+   */
+  fields: string[]
+  /**
+   * the ABI tuple type of the event fields
+   */
+  type: ABIType
+}
+
+/**
+ * Get the ARC-28 selector of an event
+ * @param name the event name
+ * @param types the ABI types of the event fields
+ * @returns the first 4 bytes of the sha512_256 hash of the event signature, hex encoded
+ */
+const getEventSelector = (name: string, types: string[]): string => {
+  const signature = `${name}(${types.join(',')})`
+
+  return createHash('sha512-256').update(signature).digest().subarray(0, 4).toString('hex')
+}
+
+/**
+ * Get the admin event decoders by selector, so a log can be matched with a single lookup
+ * @param appSpec ARC-56 spec of the beacon, e.g. APP_SPEC of the generated client
+ * @returns admin event decoders keyed by hex encoded selector
+ */
+export const getAdminEventDecoders = (appSpec: Arc56Contract): Map<string, AdminEventDecoder> => {
+  const decoders = new Map<string, AdminEventDecoder>()
+
+  for (const name of ADMIN_EVENT_NAMES) {
+    const event = appSpec.events?.find((e) => e.name === name)
+    if (event === undefined) {
+      throw Error(`the app spec has no ${name} event`)
+    }
+
+    const types = event.args.map((arg) => arg.type)
+    decoders.set(getEventSelector(name, types), {
+      name,
+      fields: event.args.map((arg, i) => arg.name ?? `arg${i}`),
+      type: ABIType.from(`(${types.join(',')})`),
+    })
+  }
+
+  return decoders
+}
+
+/**
+ * Decode the admin events logged by an app through a transaction and its inner transactions
+ * @param txn indexer transaction
+ * @param appId app id whose logs are decoded, other apps can log events with the same selectors
+ * @param txId the ID of the top level transaction
+ * @param decoders admin event decoders from getAdminEventDecoders
+ * @returns admin events in log order
+ */
+export const decodeAdminEvents = (
+  txn: indexerModels.Transaction,
+  appId: bigint,
+  txId: string,
+  decoders: Map<string, AdminEventDecoder>,
+): AdminEvent[] => {
+  const events: AdminEvent[] = []
+  const logs = txn.applicationTransaction?.applicationId === appId ? (txn.logs ?? []) : []
+
+  for (const log of logs) {
+    const event = decoders.get(Buffer.from(log.subarray(0, 4)).toString('hex'))
+    if (event === undefined) {
+      continue
+    }
+
+    const values = event.type.decode(log.subarray(4)) as (string | bigint)[]
+    events.push({
+      name: event.name,
+      args: Object.fromEntries(event.fields.map((field, i) => [field, values[i]])),
+      txId,
+      round: txn.confirmedRound ?? 0n,
+      roundTime: txn.roundTime ?? 0,
+    })
+  }
+
+  for (const innerTxn of txn.innerTxns ?? []) {
+    events.push(...decodeAdminEvents(innerTxn, appId, txId, decoders))
+  }
+
+  return events
+}
+
+/**
+ * Rebuild who managed and paused an app over time from its transaction logs
+ * @param indexer indexer client
+ * @param appId app id of the beacon (or any app inheriting Managable and Pausable)
+ * @param appSpec ARC-56 spec of the app, the admin events are decoded as it describes them
+ * @returns admin events, oldest first
+ * @description the manager and pauser start as the app creator, the creation itself logs no event
+ */
+export const getAdminHistory = async (
+  indexer: Indexer,
+  appId: bigint,
+  appSpec: Arc56Contract,
+): Promise<AdminEvent[]> => {
+  const decoders = getAdminEventDecoders(appSpec)
+  const events: AdminEvent[] = []
+  let nextToken: string | undefined = undefined
+
+  do {
+    const query = indexer.searchForTransactions().applicationID(appId)
+    if (nextToken !== undefined) {
+      query.nextToken(nextToken)
+    }
+    const response: indexerModels.TransactionsResponse = await query.do()
+
+    for (const txn of response.transactions) {
+      events.push(...decodeAdminEvents(txn, appId, txn.id ?? '', decoders))
+    }
+
+    nextToken = response.transactions.length > 0 ? response.nextToken : undefined
+  } while (nextToken !== undefined)
+
+  return events
+}
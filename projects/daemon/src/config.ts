@@ -6,10 +6,19 @@ import { mnemonicToSecretKey } from 'algosdk'
 import { mustGetEnv } from './utils'
 import * as algokit from '@algorandfoundation/algokit-utils'
 
+if (process.env.FULFILLER_MNEMONIC === undefined && process.env.MANAGER_MNEMONIC !== undefined) {
+  throw Error(
+    'env MANAGER_MNEMONIC was renamed to FULFILLER_MNEMONIC, set it to an account added with addFulfiller() (the deploy script grants FULFILLER_ADDRESS, or the deployer)',
+  )
+}
+
 export default {
   algorand: algokit.AlgorandClient.fromEnvironment(),
   pollInterval: Number(mustGetEnv('POLL_INTERVAL')),
   beaconAppId: BigInt(mustGetEnv('BEACON_APP_ID')),
-  managerAccount: mnemonicToSecretKey(mustGetEnv('MANAGER_MNEMONIC')),
-  vrfSecretKey: Buffer.from(mustGetEnv('VRF_SECRET_KEY'), 'base64'),
+  fulfillerAccount: mnemonicToSecretKey(mustGetEnv('FULFILLER_MNEMONIC')),
+  // comma separated, so keys can be swapped during a public key rotation
+  vrfSecretKeys: mustGetEnv('VRF_SECRET_KEY')
+    .split(',')
+    .map((sk) => Buffer.from(sk.trim(), 'base64')),
 }
@@ -1,18 +1,109 @@
 import { makeBasicAccountTransactionSigner } from 'algosdk'
 import * as algokit from '@algorandfoundation/algokit-utils'
 import libvrf from '../../libvrf'
-import { createProofForRound, ErrSleepAborted, getLastRound, makeRandomnessBeaconClient, sleep } from './utils'
+import {
+  chunk,
+  createProofForRound,
+  ErrSleepAborted,
+  getLastRound,
+  getVrfPublicKey,
+  makeRandomnessBeaconClient,
+  selectVrfSecretKey,
+  sleep,
+} from './utils'
 import config from './config'
 import logger from './logger'
 
-const { beaconAppId, managerAccount, vrfSecretKey, pollInterval } = config
+const { algorand, beaconAppId, fulfillerAccount, vrfSecretKeys, pollInterval } = config
 
-const managerClient = makeRandomnessBeaconClient(
+/**
+ * Max number of requests completed in a single completeRequests() call
+ */
+const MAX_BATCH_SIZE = 8
+
+/**
+ * Pause scopes of the beacon, must match PAUSE_SCOPE_FULFILLMENT and PAUSE_SCOPE_CANCELLATION
+ */
+const PAUSE_SCOPE_FULFILLMENT = 2n
+const PAUSE_SCOPE_CANCELLATION = 4n
+
+/**
+ * Txns worth of opcode budget used by vrf_verify, must match VRF_VERIFY_TXNS
+ */
+const VRF_VERIFY_TXNS = 8n
+
+/**
+ * Request options passed to the getCosts() calls padding a completeRequests() group, only their references matter
+ */
+const PADDING_REQUEST_OPTIONS = {
+  salt: new Uint8Array(32),
+  numWords: 0n,
+  callbackFee: 0n,
+  pullMode: false,
+  archive: false,
+}
+
+const fulfillerClient = makeRandomnessBeaconClient(
   beaconAppId,
-  managerAccount.addr.toString(),
-  makeBasicAccountTransactionSigner(managerAccount),
+  fulfillerAccount.addr.toString(),
+  makeBasicAccountTransactionSigner(fulfillerAccount),
 )
 
+/**
+ * A group of beacon app calls fulfilling requests, padded for resources before sending
+ */
+type FulfillGroup = ReturnType<typeof fulfillerClient.newGroup>
+
+/**
+ * Pad a group fulfilling requests with cheap app calls
+ * @param group the group fulfilling the requests
+ * @param numRequests the number of requests fulfilled by the group
+ * @param lastRound last known round
+ * @description every request needs its box, requester app and requester account referenced, the padding gives
+ * populateAppCallResources enough reference slots to spread them over
+ */
+const padResources = (group: FulfillGroup, numRequests: number, lastRound: bigint) => {
+  for (let i = 0; i < Math.ceil((numRequests * 3) / 8); i++) {
+    group.getCosts({
+      args: { options: PADDING_REQUEST_OPTIONS },
+      note: `resources ${i}`,
+      firstValidRound: lastRound,
+      validityWindow: 500n,
+    })
+  }
+}
+
+/**
+ * Sum the fees paid in advance by a batch of requests
+ * @param batch the requests of the batch
+ * @param verifiesProof true if the call verifies a proof, only its first request pays for vrf_verify
+ * @param minFee the min txn fee, the other requests are refunded their vrf_verify fees by the beacon
+ * @param verifiesPreviousKey true if the proof is of the previous public key, vrf_verify then runs twice
+ * @returns the max fee the batch can be fulfilled with, the caller is reimbursed with these fees (plus the second
+ * vrf_verify when the first request was created before the key rotation and did not pay for it)
+ */
+const sumFees = (
+  batch: { fees: bigint; previousKeyVerifyFee: bigint }[],
+  verifiesProof: boolean,
+  minFee: bigint,
+  verifiesPreviousKey = false,
+) => {
+  const reimbursedFees = batch.reduce((total, { fees, previousKeyVerifyFee }, i) => {
+    const paysVerification = verifiesProof && i === 0
+    let verificationRefund = paysVerification ? 0n : VRF_VERIFY_TXNS * minFee
+    // the second vrf_verify is only spent by the request paying for a proof of the previous key
+    if (!paysVerification || !verifiesPreviousKey) {
+      verificationRefund += previousKeyVerifyFee
+    }
+
+    return total + (fees > verificationRefund ? fees - verificationRefund : 0n)
+  }, 0n)
+  const unpaidVerifyFee =
+    verifiesProof && verifiesPreviousKey && batch[0]?.previousKeyVerifyFee === 0n ? VRF_VERIFY_TXNS * minFee : 0n
+
+  return algokit.microAlgos(reimbursedFees + unpaidVerifyFee)
+}
+
 /**
  * Main worker loop
  * @param signal AbortSignal to stop the loop (potentially used in future)
@@ -21,15 +112,15 @@ const managerClient = makeRandomnessBeaconClient(
  * It will complete requests that are ready and cancel stale requests
  */
 const main = async (signal: AbortSignal) => {
-  logger.info({ beaconAppId, managerAddress: managerAccount.addr.toString() }, 'Starting RandomnessBeacon daemon')
+  logger.info({ beaconAppId, fulfillerAddress: fulfillerAccount.addr.toString() }, 'Starting RandomnessBeacon daemon')
 
   // init vrf lib
   await libvrf.init()
   // for debug purposes
   logger.debug('libvrf initialized')
 
-  // get stale request timeout from global state, this will only be used once
-  const staleRequestTimeout = await managerClient.state.global.staleRequestTimeout()
+  // get stale request timeout from global state, it is re-read on every poll as the manager can update it
+  let staleRequestTimeout = await fulfillerClient.state.global.staleRequestTimeout()
   if (staleRequestTimeout === undefined) {
     throw Error('beacon global state is not properly initialized')
   }
@@ -51,7 +142,7 @@ const main = async (signal: AbortSignal) => {
       }
     }
 
-    const totalPendingRequests = await managerClient.state.global.totalPendingRequests()
+    const totalPendingRequests = await fulfillerClient.state.global.totalPendingRequests()
     if (totalPendingRequests === undefined) {
       throw Error('beacon global state is not properly initialized')
     }
@@ -63,12 +154,50 @@ const main = async (signal: AbortSignal) => {
       continue
     }
 
+    // pick up a new stale request timeout before deciding which requests to cancel
+    const currentStaleRequestTimeout = await fulfillerClient.state.global.staleRequestTimeout()
+    if (currentStaleRequestTimeout === undefined) {
+      throw Error('beacon global state is not properly initialized')
+    }
+    if (currentStaleRequestTimeout !== staleRequestTimeout) {
+      logger.info(
+        {
+          previousStaleRequestTimeout: Number(staleRequestTimeout),
+          staleRequestTimeout: Number(currentStaleRequestTimeout),
+        },
+        'staleRequestTimeout updated by the manager',
+      )
+      staleRequestTimeout = currentStaleRequestTimeout
+    }
+
+    // the beacon rejects calls of a paused scope, leave those requests pending until the pauser unpauses it
+    const pausedScopes = (await fulfillerClient.state.global.pausedScopes()) ?? 0n
+    const fulfillmentPaused = (pausedScopes & PAUSE_SCOPE_FULFILLMENT) !== 0n
+    const cancellationPaused = (pausedScopes & PAUSE_SCOPE_CANCELLATION) !== 0n
+    if (fulfillmentPaused || cancellationPaused) {
+      logger.warn({ beaconAppId, fulfillmentPaused, cancellationPaused }, 'Beacon is paused')
+    }
+
     // read the boxes to get pending requests
-    const boxMap = await managerClient.state.box.requests.getMap()
+    const boxMap = await fulfillerClient.state.box.requests.getMap()
     // get lastRound from chain to get a reference point in time
     const lastRound = await getLastRound()
+    // the beacon refunds the vrf_verify fees of requests that did not verify the proof, they are not reimbursed
+    const minFee = BigInt((await algorand.getSuggestedParams()).minFee)
     // log lastRound for debug purposes
     logger.debug({ lastRound }, 'Got last round')
+    // in k-of-n mode the daemon proves as one of the operators, the beacon combines the proofs of k operators
+    const operatorThreshold = (await fulfillerClient.state.global.operatorThreshold()) ?? 0n
+    // pick up the key set accepted by the beacon, it can change when the manager rotates the public key
+    const vrfKey = await selectVrfSecretKey(vrfSecretKeys, fulfillerClient, lastRound)
+    if (vrfKey === undefined && operatorThreshold === 0n) {
+      logger.warn(
+        { beaconAppId },
+        'No configured VRF secret key matches the beacon public keys, requests cannot be completed',
+      )
+    }
+    // ready requests grouped by target round, so each round is proven (and verified) once
+    const readyRequests = new Map<bigint, { requestId: bigint; fees: bigint; previousKeyVerifyFee: bigint }[]>()
     // loop through all requests
     for (const [requestId, request] of boxMap) {
       const roundsSinceReady = lastRound - request.round
@@ -84,12 +213,16 @@ const main = async (signal: AbortSignal) => {
 
       // has timed out, cancel it
       if (roundsSinceReady >= staleRequestTimeout) {
+        if (cancellationPaused) {
+          continue
+        }
+
         logger.warn(
           { requestId, targetRound: request.round, lastRound, roundsSinceReady },
           'Request has timed out, attempting to cancel',
         )
 
-        await managerClient.send.cancelRequest({
+        await fulfillerClient.send.cancelRequest({
           args: [requestId],
           populateAppCallResources: true,
           coverAppCallInnerTransactionFees: true,
@@ -102,34 +235,171 @@ const main = async (signal: AbortSignal) => {
           'Request cancelled successfully',
         )
       } else if (roundsSinceReady > 0n) {
+        // cannot prove without a key the beacon accepts, leave it pending (or until stale)
+        if ((vrfKey === undefined && operatorThreshold === 0n) || fulfillmentPaused) {
+          continue
+        }
+
         logger.info(
           { requestId, targetRound: request.round, lastRound, roundsSinceReady },
           'Randomness request is ready to be completed',
         )
 
-        const proof = await createProofForRound(vrfSecretKey, request.round)
+        // fees paid in advance by the requester, the caller is reimbursed with them on completion
+        const { fees, previousKeyVerifyFee } = request.costs
+        readyRequests.set(request.round, [
+          ...(readyRequests.get(request.round) ?? []),
+          { requestId, fees, previousKeyVerifyFee },
+        ])
+      }
+    }
+
+    // operators prove with their own key, registered with addOperator()
+    if (operatorThreshold > 0n) {
+      await submitOperatorProofs(readyRequests, operatorThreshold, lastRound, minFee)
+      continue
+    }
 
-        // send complete request
-        await managerClient.send.completeRequest({
-          args: [requestId, proof],
+    // no ready request was picked up without a key
+    if (vrfKey === undefined) {
+      continue
+    }
+
+    for (const [round, requests] of readyRequests) {
+      const proof = await createProofForRound(vrfKey.secretKey, round)
+
+      for (const batch of chunk(requests, MAX_BATCH_SIZE)) {
+        const requestIds = batch.map(({ requestId }) => requestId)
+        const group = fulfillerClient.newGroup().completeRequests({
+          args: [round, requestIds, proof],
+          // never spend more than the fees we are reimbursed with (callback fees are paid by the beacon), except the
+          // second vrf_verify of a proof of the previous key for requests that did not pay for it
+          maxFee: sumFees(batch, true, minFee, vrfKey.isPreviousKey),
+          firstValidRound: lastRound,
+          validityWindow: 500n, // TODO: investigate why this is required, can't access the target round even when it's within range
+        })
+        padResources(group, batch.length, lastRound)
+
+        // send complete requests
+        await group.send({
           populateAppCallResources: true,
           coverAppCallInnerTransactionFees: true,
-          // TODO: consider doing this dynamically, allow users to cover additional fee costs by overpaying to the beacon
-          maxFee: algokit.algos(0.012),
           suppressLog: true,
-          firstValidRound: lastRound,
-          validityWindow: 500n, // TODO: investigate why this is required, can't access the target round even when it's within range
         })
 
-        logger.info(
-          { requestId, requesterAppId: request.requesterAppId, requesterAddress: request.requesterAddress },
-          'Request completed successfully',
-        )
+        logger.info({ round, requestIds }, 'Requests completed successfully')
       }
     }
   }
 }
 
+/**
+ * Submit the proofs of this operator in k-of-n mode, and complete the requests of rounds with enough proofs
+ * @param readyRequests ready requests grouped by target round
+ * @param operatorThreshold the number of proofs combined into a round output
+ * @param lastRound last known round
+ * @param minFee the min txn fee
+ * @description any operator submits until the round has its threshold of proofs, the proof reaching it also
+ * fulfills the first batch
+ */
+const submitOperatorProofs = async (
+  readyRequests: Map<bigint, { requestId: bigint; fees: bigint; previousKeyVerifyFee: bigint }[]>,
+  operatorThreshold: bigint,
+  lastRound: bigint,
+  minFee: bigint,
+) => {
+  const operators = await fulfillerClient.state.box.operators.getMap()
+  const operator = operators.get(fulfillerAccount.addr.toString())
+  if (operator === undefined) {
+    logger.warn({ beaconAppId }, 'Fulfiller account is not an operator, requests cannot be completed')
+    return
+  }
+
+  const vrfSecretKey = vrfSecretKeys.find((sk) => getVrfPublicKey(sk).equals(operator.publicKey))
+  if (vrfSecretKey === undefined) {
+    logger.warn({ beaconAppId }, 'No configured VRF secret key matches the operator public key')
+    return
+  }
+
+  const submissionsByRound = await fulfillerClient.state.box.submissions.getMap()
+
+  for (const [round, requests] of readyRequests) {
+    const batches = chunk(requests, MAX_BATCH_SIZE)
+    const submissions = submissionsByRound.get(round)
+    // the threshold is fixed by the first proof of the round
+    const threshold = submissions?.threshold ?? operatorThreshold
+    const submitted = submissions?.count ?? 0n
+    const operatorBit = 1n << operator.index
+    let aggregated = submissions !== undefined && submitted === threshold
+
+    if (!aggregated && ((submissions?.operators ?? 0n) & operatorBit) === 0n) {
+      // only the proof reaching the threshold can fulfill requests, it is reimbursed with their fees
+      const reachesThreshold = submitted + 1n === threshold
+      const batch = reachesThreshold ? (batches.shift() ?? []) : []
+      const requestIds = batch.map(({ requestId }) => requestId)
+      // the first proof of the round pays for the submissions box
+      const boxMbr = submissions === undefined ? await fulfillerClient.getSubmissionsBoxMbr({ args: [] }) : 0n
+
+      const group = fulfillerClient.newGroup().submitProof({
+        args: {
+          round,
+          proof: await createProofForRound(vrfSecretKey, round),
+          requestIds,
+          mbrPayment: algorand.createTransaction.payment({
+            sender: fulfillerAccount.addr,
+            receiver: fulfillerClient.appAddress,
+            amount: algokit.microAlgos(boxMbr),
+          }),
+        },
+        // a proof that does not complete the round is paid by the operator (vrf_verify budget)
+        maxFee: reachesThreshold ? sumFees(batch, true, minFee) : algokit.algos(0.01),
+        firstValidRound: lastRound,
+        validityWindow: 500n,
+      })
+      padResources(group, batch.length, lastRound)
+
+      try {
+        await group.send({
+          populateAppCallResources: true,
+          coverAppCallInnerTransactionFees: true,
+          suppressLog: true,
+        })
+      } catch (error: Error | unknown) {
+        // another operator can submit the same round first, pick it up again on the next poll
+        logger.warn({ round, err: error instanceof Error ? error.message : error }, 'Proof submission failed')
+        continue
+      }
+
+      logger.info({ round, requestIds, reachesThreshold }, 'Proof submitted successfully')
+      aggregated = reachesThreshold
+    }
+
+    // waiting for other operators to prove the round
+    if (!aggregated) {
+      continue
+    }
+
+    for (const batch of batches) {
+      const requestIds = batch.map(({ requestId }) => requestId)
+      const group = fulfillerClient.newGroup().completeAggregatedRequests({
+        args: [round, requestIds],
+        maxFee: sumFees(batch, false, minFee),
+        firstValidRound: lastRound,
+        validityWindow: 500n,
+      })
+      padResources(group, batch.length, lastRound)
+
+      await group.send({
+        populateAppCallResources: true,
+        coverAppCallInnerTransactionFees: true,
+        suppressLog: true,
+      })
+
+      logger.info({ round, requestIds }, 'Requests completed successfully')
+    }
+  }
+}
+
 const abortController = new AbortController()
 
 process.on('SIGINT', () => {
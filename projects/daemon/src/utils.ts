@@ -49,6 +49,20 @@ export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
   })
 }
 
+/**
+ * Split an array into chunks
+ * @param items items to split
+ * @param size max size of each chunk
+ * @returns array of chunks, in order
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
 /**
  * Get the last known round from the algod node
  * @returns last known round
@@ -87,6 +101,50 @@ export const createProofForRound = async (
   return proof
 }
 
+/**
+ * Get the VRF public key of a VRF secret key
+ * @param sk VRF secret key (64 bytes, seed followed by the public key)
+ * @returns VRF public key
+ */
+export const getVrfPublicKey = (sk: Buffer<ArrayBuffer>): Buffer<ArrayBuffer> => {
+  return sk.subarray(32)
+}
+
+/**
+ * Select the secret key to prove with from the public keys currently accepted by the beacon
+ * @param secretKeys VRF secret keys available to the daemon
+ * @param client RandomnessBeaconClient instance
+ * @param lastRound last known round
+ * @returns the secret key matching the active public key, or the previous one during its overlap window (flagged
+ * with isPreviousKey, its proofs are verified twice on chain)
+ */
+export const selectVrfSecretKey = async (
+  secretKeys: Buffer<ArrayBuffer>[],
+  client: RandomnessBeaconClient,
+  lastRound: bigint,
+): Promise<{ secretKey: Buffer<ArrayBuffer>; isPreviousKey: boolean } | undefined> => {
+  const { publicKey, previousPublicKey, previousPublicKeyExpiresAt } = await client.state.global.getAll()
+
+  const findSecretKey = (pk: Uint8Array | undefined) =>
+    pk === undefined ? undefined : secretKeys.find((sk) => getVrfPublicKey(sk).equals(pk))
+
+  // prefer the active key, the previous key costs an extra vrf_verify on chain
+  const activeSecretKey = findSecretKey(publicKey)
+  if (activeSecretKey !== undefined) {
+    return { secretKey: activeSecretKey, isPreviousKey: false }
+  }
+
+  // the previous key is accepted until (not including) previousPublicKeyExpiresAt
+  if (previousPublicKeyExpiresAt !== undefined && lastRound < previousPublicKeyExpiresAt) {
+    const previousSecretKey = findSecretKey(previousPublicKey)
+    if (previousSecretKey !== undefined) {
+      return { secretKey: previousSecretKey, isPreviousKey: true }
+    }
+  }
+
+  return undefined
+}
+
 /**
  * Create a RandomnessBeaconClient instance
  * @param appId randomness beacon app id
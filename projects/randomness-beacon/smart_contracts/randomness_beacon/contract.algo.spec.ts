@@ -1,4 +1,5 @@
 import {
+  Account,
   arc4,
   assert,
   assertMatch,
@@ -7,17 +8,103 @@ import {
   emit,
   Global,
   gtxn,
+  OnCompleteAction,
   op,
+  TransactionType,
   uint64,
   VrfVerify,
 } from '@algorandfoundation/algorand-typescript'
-import { ApplicationSpy, TestExecutionContext } from '@algorandfoundation/algorand-typescript-testing'
+import { ApplicationSpy, TestExecutionContext, toExternalValue } from '@algorandfoundation/algorand-typescript-testing'
 import { afterEach, beforeAll, describe, expect, it, Mock, vi } from 'vitest'
 import { RandomnessBeacon } from './contract.algo'
+import { ERR_HANDOVER_NOT_READY, ERR_ONLY_PROPOSED_HOLDER } from './contracts/handover.algo'
 import { ExampleCaller } from './contracts/example-caller.algo'
 
+import { createHash } from 'node:crypto'
 import libvrf from '../../../libvrf'
-import { RandomnessRequest, RequestCreated, VrfOutput, VrfProof, VrfPublicKey } from './types.algo'
+import {
+  ACCESS_MODE_ALLOWLIST,
+  ACCESS_MODE_DENYLIST,
+  BLOCK_SEED_LOOKBACK,
+  CANCELLED_PAGE_SIZE,
+  ERR_ACCOUNT_REQUEST_MUST_USE_PULL_MODE,
+  ERR_ALREADY_SUBMITTED,
+  ERR_ARCHIVE_RETENTION_NOT_EXPIRED,
+  ERR_BOND_TOO_LOW,
+  ERR_BOND_WITHDRAWAL_DELAY_CANNOT_BE_LOWERED,
+  ERR_BOND_WITHDRAWAL_NOT_READY,
+  ERR_CALLBACK_MUST_CONSENT,
+  ERR_CALLBACK_NOT_APPROVED,
+  ERR_CANCELLED_PAGE_NOT_FOUND,
+  ERR_CANCELLED_PAGES,
+  ERR_CONSUMER_MUST_CONSENT,
+  ERR_CONSUMER_NOT_REGISTERED,
+  ERR_COSTS_PAYMENT_MUST_BE_VALID,
+  ERR_CREATION_MUST_BE_PAUSED,
+  ERR_CUSTOM_CALLBACK_OPTIONS,
+  ERR_DELETION_LOCKED,
+  ERR_INSUFFICIENT_SUBSCRIPTION_BALANCE,
+  ERR_INSUFFICIENT_TREASURY,
+  ERR_INVALID_ACCESS_MODE,
+  ERR_INVALID_CALLBACK_APP,
+  ERR_INVALID_OPERATOR_THRESHOLD,
+  ERR_INVALID_RECURRENCE,
+  ERR_MAX_FUTURE_ROUNDS_CANNOT_BE_ZERO,
+  ERR_MAX_PENDING_REQUESTS_CANNOT_BE_ZERO,
+  ERR_MAX_PENDING_REQUESTS_PER_APP,
+  ERR_MULTI_OPERATOR_MODE,
+  ERR_MUST_BE_REQUESTER,
+  ERR_NO_PENDING_BOND_WITHDRAWAL,
+  ERR_NO_PENDING_UPDATE,
+  ERR_NO_PREVIOUS_PUBLIC_KEY,
+  ERR_NO_QUOTA_OVERRIDE,
+  ERR_NUM_WORDS_EXCEEDS_MAX,
+  ERR_ONLY_OPERATOR,
+  ERR_ONLY_SUBSCRIPTION_OWNER,
+  ERR_OPEN_SUBSCRIPTIONS,
+  ERR_OPERATORS_LOCKED,
+  ERR_PUBLIC_KEY_UNCHANGED,
+  ERR_PULL_MODE_OPTIONS,
+  ERR_RECURRING_PULL_MODE,
+  ERR_REQUEST_MUST_BE_STALE,
+  ERR_REQUESTER_NOT_ALLOWED,
+  ERR_REQUESTER_PAUSED,
+  ERR_ROUND_ALREADY_AGGREGATED,
+  ERR_ROUND_HAS_PENDING_REQUESTS,
+  ERR_ROUND_NOT_ARCHIVED,
+  ERR_SUBMISSION_PAYMENT_MUST_BE_VALID,
+  ERR_SUBMISSIONS_NOT_EXPIRED,
+  ERR_SUBSCRIPTION_BALANCES,
+  ERR_SUBSCRIPTION_HAS_CONSUMERS,
+  ERR_SUBSCRIPTION_HAS_PENDING_REQUESTS,
+  ERR_TIMEOUT_CANNOT_BE_ZERO,
+  ERR_UPDATE_NOT_ANNOUNCED,
+  ERR_UPDATE_NOT_READY,
+  ERR_UPDATE_POLICY_CANNOT_BE_LOOSENED,
+  ERR_UPDATES_LOCKED,
+  MAX_NUM_WORDS,
+  NOTE_CANCELLATION_REFUND,
+  NOTE_OVERPAYMENT_REFUND,
+  NOTE_SUBSCRIPTION_CLOSE_REFUND,
+  PAUSE_SCOPE_CANCELLATION,
+  PAUSE_SCOPE_CREATION,
+  PAUSE_SCOPE_FULFILLMENT,
+  RandomnessCallback,
+  RandomnessRequest,
+  RandomnessRequestOptions,
+  REQUEST_STATUS_CANCELLED,
+  REQUEST_STATUS_FULFILLED,
+  REQUEST_STATUS_NONE,
+  REQUEST_STATUS_PENDING,
+  RequestCreated,
+  UPDATE_POLICY_LOCKED,
+  UPDATE_POLICY_OPEN,
+  UPDATE_POLICY_TIMELOCKED,
+  VRF_VERIFY_TXNS,
+  VrfOutput,
+  VrfProof,
+  VrfPublicKey,
+} from './types.algo'
 
 // Mock the op module from algorand-typescript, not the testing library
 vi.mock(import('@algorandfoundation/algorand-typescript-testing/internal'), async (importOriginal) => {
@@ -33,6 +120,113 @@ vi.mock(import('@algorandfoundation/algorand-typescript-testing/internal'), asyn
   }
 })
 
+/**
+ * Off-chain derivation of a request output, must match RandomnessBeacon._deriveRequestOutput
+ */
+const deriveRequestOutput = (
+  vrfOutput: Uint8Array,
+  requestId: bigint,
+  requesterAppId: bigint,
+  requesterAddress: Uint8Array,
+  salt: Uint8Array,
+): VrfOutput => {
+  const itob = (n: bigint) => {
+    const b = Buffer.alloc(8)
+    b.writeBigUInt64BE(n)
+    return b
+  }
+  const message = Buffer.concat([vrfOutput, itob(requestId), itob(requesterAppId), requesterAddress, salt])
+  const hash = (i: bigint) =>
+    createHash('sha512-256')
+      .update(Buffer.concat([message, itob(i)]))
+      .digest()
+
+  return Bytes(new Uint8Array(Buffer.concat([hash(0n), hash(1n)]))) as unknown as VrfOutput
+}
+
+/**
+ * Encodes the data of an ARC-28 event with static fields (addresses and uint64s), as emit() logs it after the selector
+ */
+const encodeEventData = (...fields: (Account | bigint)[]): Buffer => {
+  const encodedFields = fields.map((field) => {
+    if (typeof field !== 'bigint') {
+      return Buffer.from(toExternalValue(field.bytes))
+    }
+    const b = Buffer.alloc(8)
+    b.writeBigUInt64BE(field)
+    return b
+  })
+
+  return Buffer.concat(encodedFields)
+}
+
+/**
+ * Request options with no salt, defaults to a single output delivered through fulfillRandomness
+ */
+const requestOptions = (overrides: Partial<RandomnessRequestOptions> = {}): RandomnessRequestOptions => ({
+  salt: new arc4.StaticBytes<32>(Bytes(new Uint8Array(32))),
+  numWords: 0,
+  callbackFee: 0,
+  pullMode: false,
+  archive: false,
+  ...overrides,
+})
+
+/**
+ * The callback requests are created with, fulfillRandomness or fulfillRandomWords of the requester app
+ */
+const defaultCallback = (requesterAppId: uint64): RandomnessCallback => ({
+  appId: requesterAppId,
+  selector: new arc4.StaticBytes<4>(Bytes(new Uint8Array(4))),
+})
+
+/**
+ * A request for a single delivery of round 11, created at round 10 and paying what getCosts() asks for its options.
+ * The callback defaults to the one of its requester app
+ */
+const buildRequest = (
+  beaconContract: RandomnessBeacon,
+  overrides: Partial<RandomnessRequest> = {},
+): RandomnessRequest => {
+  const options = overrides.options ?? requestOptions()
+  const requesterAppId = overrides.requesterAppId ?? 0
+
+  return {
+    createdAt: 10,
+    requesterAppId: requesterAppId,
+    requesterAddress: new arc4.Address(),
+    round: 11,
+    costs: beaconContract.getCosts(options),
+    options: options,
+    subscriptionId: 0,
+    overpayment: 0,
+    stalePenalty: 0,
+    interval: 0,
+    remainingDeliveries: 1,
+    callback: defaultCallback(requesterAppId),
+    ...overrides,
+  }
+}
+
+/**
+ * Stores a request as RandomnessBeacon._createRequest would, keeping the pending request counters in sync
+ */
+const storeRequest = (beaconContract: RandomnessBeacon, request: RandomnessRequest): uint64 => {
+  const requestId: uint64 = beaconContract.nextRequestId.value
+  beaconContract.nextRequestId.value += 1
+  beaconContract.requests(requestId).value = request
+  beaconContract.totalPendingRequests.value += 1
+  beaconContract.lockedBond.value += request.stalePenalty
+  // account requests are counted per requester address
+  const pending =
+    request.requesterAppId !== 0
+      ? beaconContract.pendingRequestsByApp(request.requesterAppId)
+      : beaconContract.pendingRequestsByAccount(request.requesterAddress.native)
+  pending.value = pending.exists ? pending.value + 1 : 1
+
+  return requestId
+}
+
 describe('RandomnessBeacon contract', () => {
   const ctx = new TestExecutionContext()
   let exampleCallerAppId: uint64 = 0
@@ -66,12 +260,23 @@ describe('RandomnessBeacon contract', () => {
       staleRequestTimeout, // stale request timeout
     )
 
+    // the creator also runs the daemon in these tests
+    const mbrPayment = ctx.any.txn.payment({
+      sender: creatorAccount,
+      receiver: beaconApp.address,
+      amount: beaconContract.getFulfillerBoxMbr(),
+    })
+    ctx.txn
+      .createScope([mbrPayment, ctx.any.txn.applicationCall({ appId: beaconApp, sender: creatorAccount })])
+      .execute(() => beaconContract.addFulfiller(new arc4.Address(creatorAccount), mbrPayment))
+
     // create new application spy
     const spy = new ApplicationSpy(RandomnessBeacon)
 
     spy.on.createRequest((itxnContext) => {
       const round: uint64 = arc4.decodeArc4(itxnContext.appArgs(2))
       const requesterAddress: arc4.Address = arc4.decodeArc4(itxnContext.appArgs(1))
+      const options: RandomnessRequestOptions = arc4.decodeArc4<RandomnessRequestOptions>(itxnContext.appArgs(3))
       const costsPayment: gtxn.PaymentTxn = itxnContext.itxns![0] as unknown as gtxn.PaymentTxn
 
       // ensure there is capacity for more pending requests
@@ -83,27 +288,24 @@ describe('RandomnessBeacon contract', () => {
       assert(round > Global.round, 'requested round must be at least one round in the future')
 
       // get the costs
-      const { fees, boxMbr } = beaconContract.getCosts()
+      const { fees, boxMbr, callbackFee, resultBoxMbr, archiveBoxMbr, premium, previousKeyVerifyFee } =
+        beaconContract.getCosts(options)
       // check the costs payment covers required fees + box mbr
       assertMatch(
         costsPayment,
         {
           receiver: beaconApp.address,
           amount: {
-            // should cover the required fees + box storage cost (will be refunded)
-            greaterThanEq: fees + boxMbr,
+            // should cover the required fees + box storage costs (will be refunded) + callback fee
+            greaterThanEq: fees + boxMbr + callbackFee + resultBoxMbr + archiveBoxMbr + premium,
           },
         },
         'must cover txn fees and box cost',
       )
 
-      // calc fees paid = total - boxCost
-      const feesPaid: uint64 = costsPayment.amount - boxMbr
-
-      // get next available request id
-      const requestId: uint64 = beaconContract.nextRequestId.value
-      // inc current requestId
-      beaconContract.nextRequestId.value += 1
+      // anything above the costs is refunded to the requester
+      const overpayment: uint64 =
+        costsPayment.amount - fees - boxMbr - callbackFee - resultBoxMbr - archiveBoxMbr - premium
 
       const request: RandomnessRequest = {
         createdAt: Global.round,
@@ -111,15 +313,25 @@ describe('RandomnessBeacon contract', () => {
         requesterAddress: requesterAddress,
         round: round,
         costs: {
-          fees: feesPaid,
+          fees: fees,
           boxMbr: boxMbr,
+          callbackFee: callbackFee,
+          resultBoxMbr: resultBoxMbr,
+          archiveBoxMbr: archiveBoxMbr,
+          premium: premium,
+          previousKeyVerifyFee: previousKeyVerifyFee,
         },
+        options: options,
+        subscriptionId: 0,
+        overpayment: overpayment,
+        stalePenalty: 0,
+        interval: 0,
+        remainingDeliveries: 1,
+        callback: defaultCallback(exampleCallerAppId),
       }
 
       // make request in box storage
-      beaconContract.requests(requestId).value = request
-      // increment the total pending requests
-      beaconContract.totalPendingRequests.value += 1
+      const requestId = storeRequest(beaconContract, request)
 
       //  emit created event
       emit<RequestCreated>({
@@ -138,6 +350,58 @@ describe('RandomnessBeacon contract', () => {
     return { beaconContract, beaconApp, publicKey, secretKey, manager: creatorAccount }
   }
 
+  /**
+   * Gets the event data logged by the beacon app calls of the last group.
+   * The testing library derives event selectors from its own type names, so only the data after the selector is compared.
+   */
+  const lastEventData = (beaconContract: RandomnessBeacon): Buffer[] => {
+    const beaconApp = ctx.ledger.getApplicationForContract(beaconContract)
+
+    return ctx.txn.lastGroup.transactions
+      .flatMap((txn) =>
+        txn.type === TransactionType.ApplicationCall && txn.appId === beaconApp
+          ? Array.from({ length: Number(txn.numLogs) }, (_, i) => txn.logs(i))
+          : [],
+      )
+      .map((log) => Buffer.from(toExternalValue(log).subarray(4)))
+  }
+
+  /**
+   * Calls the beacon in a new top level app call, a failed call can leave its sender active otherwise
+   */
+  const callAs = <T>(beaconContract: RandomnessBeacon, sender: Account, call: () => T): T => {
+    const beaconApp = ctx.ledger.getApplicationForContract(beaconContract)
+
+    return ctx.txn.createScope([ctx.any.txn.applicationCall({ appId: beaconApp, sender: sender })]).execute(call)
+  }
+
+  /**
+   * Calls createRequest directly, as if it was an inner txn of the requester app
+   */
+  const createRequestFromApp = (
+    beaconContract: RandomnessBeacon,
+    requesterAppId: uint64,
+    requesterAddress: arc4.Address,
+    round: uint64,
+    options: RandomnessRequestOptions,
+    amount: uint64,
+  ): uint64 => {
+    const beaconApp = ctx.ledger.getApplicationForContract(beaconContract)
+    const requesterApp = ctx.ledger.getApplication(requesterAppId)
+
+    ctx.ledger.patchGlobalData({ callerApplicationId: requesterAppId })
+
+    const costsPayment = ctx.any.txn.payment({
+      sender: requesterApp.address,
+      receiver: beaconApp.address,
+      amount: amount,
+    })
+
+    return ctx.txn
+      .createScope([costsPayment, ctx.any.txn.applicationCall({ appId: beaconApp, sender: requesterApp.address })])
+      .execute(() => beaconContract.createRequest(requesterAddress, round, options, costsPayment))
+  }
+
   it('Can be created and global state is as expected', () => {
     const { beaconContract, publicKey, manager } = deploy(10, 100, 1000)
 
@@ -151,6 +415,284 @@ describe('RandomnessBeacon contract', () => {
     expect(beaconContract.staleRequestTimeout.value).toStrictEqual(1000)
   })
 
+  it('the manager can update the configuration', () => {
+    const { beaconContract } = deploy(10, 100, 1000)
+
+    beaconContract.setMaxPendingRequests(20)
+    beaconContract.setMaxFutureRounds(200)
+    beaconContract.setStaleRequestTimeout(2000)
+
+    expect(beaconContract.maxPendingRequests.value).toStrictEqual(20)
+    expect(beaconContract.maxFutureRounds.value).toStrictEqual(200)
+    expect(beaconContract.staleRequestTimeout.value).toStrictEqual(2000)
+
+    // same validation as createApplication()
+    expect(() => beaconContract.setMaxPendingRequests(0)).toThrow(ERR_MAX_PENDING_REQUESTS_CANNOT_BE_ZERO)
+    expect(() => beaconContract.setMaxFutureRounds(0)).toThrow(ERR_MAX_FUTURE_ROUNDS_CANNOT_BE_ZERO)
+    expect(() => beaconContract.setStaleRequestTimeout(0)).toThrow(ERR_TIMEOUT_CANNOT_BE_ZERO)
+
+    expect(() => callAs(beaconContract, ctx.any.account(), () => beaconContract.setStaleRequestTimeout(1))).toThrow(
+      'only manager can perform this action',
+    )
+  })
+
+  it('hands over the manager once the proposed manager accepts after the delay', () => {
+    const { beaconContract, beaconApp, manager } = deploy(10, 100, 1000)
+    const newManager = ctx.any.account()
+
+    ctx.ledger.patchGlobalData({ round: 50 })
+    callAs(beaconContract, manager, () => beaconContract.proposeManager(new arc4.Address(newManager), 10))
+    expect(lastEventData(beaconContract)).toEqual([encodeEventData(manager, newManager, 60n)])
+
+    // only the proposed manager can accept, once the delay has passed
+    expect(() => callAs(beaconContract, ctx.any.account(), () => beaconContract.acceptManager())).toThrow(
+      ERR_ONLY_PROPOSED_HOLDER,
+    )
+    expect(() => callAs(beaconContract, newManager, () => beaconContract.acceptManager())).toThrow(
+      ERR_HANDOVER_NOT_READY,
+    )
+    expect(beaconContract.manager().native).toStrictEqual(manager)
+
+    ctx.ledger.patchGlobalData({ round: 60 })
+    callAs(beaconContract, newManager, () => beaconContract.acceptManager())
+    expect(beaconContract.manager().native).toStrictEqual(newManager)
+    expect(lastEventData(beaconContract)).toEqual([encodeEventData(manager, newManager)])
+    expect(() => callAs(beaconContract, newManager, () => beaconContract.acceptManager())).toThrow(
+      'no manager handover is pending',
+    )
+
+    // a cancelled handover can't be accepted
+    callAs(beaconContract, newManager, () => beaconContract.proposeManager(new arc4.Address(manager), 0))
+    callAs(beaconContract, newManager, () => beaconContract.cancelManagerHandover())
+    expect(lastEventData(beaconContract)).toEqual([encodeEventData(newManager, manager)])
+    expect(() => callAs(beaconContract, manager, () => beaconContract.acceptManager())).toThrow(
+      'no manager handover is pending',
+    )
+
+    // deleting the manager must name this app
+    expect(() => callAs(beaconContract, newManager, () => beaconContract.deleteManager(beaconApp.id + 1))).toThrow(
+      'deleting the manager must be confirmed with the application ID',
+    )
+    callAs(beaconContract, newManager, () => beaconContract.deleteManager(beaconApp.id))
+    expect(beaconContract.manager().native).toStrictEqual(Global.zeroAddress)
+    expect(lastEventData(beaconContract)).toEqual([encodeEventData(newManager)])
+  })
+
+  it('hands over the pauser once the proposed pauser accepts', () => {
+    const { beaconContract, manager } = deploy(10, 100, 1000)
+    const newPauser = ctx.any.account()
+
+    ctx.ledger.patchGlobalData({ round: 50 })
+    callAs(beaconContract, manager, () => beaconContract.proposePauser(new arc4.Address(newPauser), 0))
+    expect(lastEventData(beaconContract)).toEqual([encodeEventData(manager, newPauser, 50n)])
+    expect(beaconContract.pauser().native).toStrictEqual(manager)
+
+    callAs(beaconContract, newPauser, () => beaconContract.acceptPauser())
+    expect(lastEventData(beaconContract)).toEqual([encodeEventData(manager, newPauser)])
+    expect(beaconContract.pauser().native).toStrictEqual(newPauser)
+    expect(() => callAs(beaconContract, manager, () => beaconContract.pause(PAUSE_SCOPE_CREATION))).toThrow(
+      'only pauser can call this method',
+    )
+  })
+
+  it('only fulfillers can complete requests', () => {
+    const { beaconContract, manager } = deploy(10, 100, 1000)
+    const fulfiller = ctx.any.account()
+
+    callAs(beaconContract, manager, () => beaconContract.removeFulfiller(new arc4.Address(manager)))
+    expect(lastEventData(beaconContract)).toEqual([encodeEventData(manager)])
+
+    const refund = ctx.txn.lastGroup.getItxnGroup(0).getPaymentInnerTxn(0)
+    expect(refund.receiver).toEqual(manager)
+    expect(refund.amount).toEqual(beaconContract.getFulfillerBoxMbr())
+    expect(beaconContract.isFulfiller(new arc4.Address(manager))).toBe(false)
+
+    // the manager is not a fulfiller anymore
+    expect(() =>
+      callAs(beaconContract, manager, () =>
+        beaconContract.completeRequests(10, [], Bytes.fromHex('00'.repeat(80)).toFixed({ length: 80 })),
+      ),
+    ).toThrow('only fulfiller can perform this action')
+
+    // only the manager can add fulfillers
+    expect(() =>
+      callAs(beaconContract, fulfiller, () => beaconContract.removeFulfiller(new arc4.Address(fulfiller))),
+    ).toThrow('only manager can perform this action')
+    expect(() =>
+      callAs(beaconContract, manager, () => beaconContract.removeFulfiller(new arc4.Address(fulfiller))),
+    ).toThrow('address is not a fulfiller')
+  })
+
+  it('applies updates according to the update policy', () => {
+    const { beaconContract, beaconApp, manager } = deploy(10, 100, 1000)
+    const approvalProgram = Bytes('new approval program')
+    // single page program, hash = sha512_256(empty hash + page)
+    const approvalProgramHash = Bytes(
+      createHash('sha512-256').update(Buffer.from('new approval program')).digest(),
+    ).toFixed({ length: 32 })
+    const update = () =>
+      ctx.txn
+        .createScope([
+          ctx.any.txn.applicationCall({
+            appId: beaconApp,
+            sender: manager,
+            onCompletion: OnCompleteAction.UpdateApplication,
+            approvalProgramPages: [approvalProgram],
+          }),
+        ])
+        .execute(() => beaconContract.updateApplication())
+
+    // open by default
+    update()
+
+    ctx.ledger.patchGlobalData({ round: 50 })
+    callAs(beaconContract, manager, () => beaconContract.setUpdatePolicy(UPDATE_POLICY_TIMELOCKED, 10))
+    expect(update).toThrow(ERR_NO_PENDING_UPDATE)
+
+    callAs(beaconContract, manager, () =>
+      beaconContract.announceUpdate(Bytes(new Uint8Array(32)).toFixed({ length: 32 })),
+    )
+    expect(update).toThrow(ERR_UPDATE_NOT_ANNOUNCED)
+
+    callAs(beaconContract, manager, () => beaconContract.announceUpdate(approvalProgramHash))
+    expect(update).toThrow(ERR_UPDATE_NOT_READY)
+    expect(BigInt(beaconContract.getUpdateReadyAt())).toEqual(60n)
+
+    // raising the delay also delays the announced update, counted from its announcement
+    ctx.ledger.patchGlobalData({ round: 55 })
+    callAs(beaconContract, manager, () => beaconContract.setUpdatePolicy(UPDATE_POLICY_TIMELOCKED, 30))
+    expect(BigInt(beaconContract.getUpdateReadyAt())).toEqual(80n)
+
+    ctx.ledger.patchGlobalData({ round: 60 })
+    expect(update).toThrow(ERR_UPDATE_NOT_READY)
+
+    ctx.ledger.patchGlobalData({ round: 80 })
+    update()
+    expect(beaconContract.pendingUpdate.hasValue).toBe(false)
+
+    // the policy can only be tightened, locked is final
+    expect(() => callAs(beaconContract, manager, () => beaconContract.setUpdatePolicy(UPDATE_POLICY_OPEN, 10))).toThrow(
+      ERR_UPDATE_POLICY_CANNOT_BE_LOOSENED,
+    )
+    expect(() =>
+      callAs(beaconContract, manager, () => beaconContract.setUpdatePolicy(UPDATE_POLICY_TIMELOCKED, 5)),
+    ).toThrow(ERR_UPDATE_POLICY_CANNOT_BE_LOOSENED)
+
+    callAs(beaconContract, manager, () => beaconContract.setUpdatePolicy(UPDATE_POLICY_LOCKED, 30))
+    expect(update).toThrow(ERR_UPDATES_LOCKED)
+    expect(() =>
+      callAs(beaconContract, manager, () => beaconContract.setUpdatePolicy(UPDATE_POLICY_LOCKED, 30)),
+    ).toThrow(ERR_UPDATES_LOCKED)
+
+    // a locked app cannot be deleted either
+    expect(() =>
+      ctx.txn
+        .createScope([
+          ctx.any.txn.applicationCall({
+            appId: beaconApp,
+            sender: manager,
+            onCompletion: OnCompleteAction.DeleteApplication,
+          }),
+        ])
+        .execute(() => beaconContract.deleteApplication()),
+    ).toThrow(ERR_DELETION_LOCKED)
+  })
+
+  it('can rotate the public key with an overlap window', () => {
+    const { beaconContract, publicKey } = deploy(10, 100, 1000)
+    // generate the replacement vrf keypair
+    const { publicKey: newPublicKey } = libvrf.keypair()
+
+    ctx.ledger.patchGlobalData({ round: 50 })
+
+    beaconContract.rotatePublicKey(newPublicKey as unknown as VrfPublicKey, 100)
+
+    // new key is active, old key is kept for the overlap window
+    expect(beaconContract.publicKey.value).toStrictEqual(newPublicKey)
+    expect(beaconContract.previousPublicKey.value).toStrictEqual(publicKey)
+    expect(beaconContract.previousPublicKeyExpiresAt.value).toEqual(150)
+
+    // cannot rotate to the key that is already active
+    expect(() => beaconContract.rotatePublicKey(newPublicKey as unknown as VrfPublicKey, 100)).toThrow(
+      ERR_PUBLIC_KEY_UNCHANGED,
+    )
+
+    // retiring ends the overlap window straight away
+    beaconContract.retirePreviousPublicKey()
+    expect(beaconContract.previousPublicKeyExpiresAt.value).toEqual(50)
+    expect(() => beaconContract.retirePreviousPublicKey()).toThrow(ERR_NO_PREVIOUS_PUBLIC_KEY)
+  })
+
+  it('only the manager can rotate the public key', () => {
+    const { beaconContract } = deploy(10, 100, 1000)
+    const { publicKey: newPublicKey } = libvrf.keypair()
+
+    ctx.defaultSender = ctx.any.account()
+
+    expect(() => beaconContract.rotatePublicKey(newPublicKey as unknown as VrfPublicKey, 100)).toThrow(
+      'only manager can perform this action',
+    )
+  })
+
+  it('prices the previous key verification during the overlap window', () => {
+    const { beaconContract, secretKey, manager } = deploy(10, 100, 1000)
+    const requesterApp = ctx.any.application()
+    const requesterAccount = ctx.any.account()
+    const options = requestOptions({ pullMode: true })
+    const verificationFees = Global.minTxnFee * VRF_VERIFY_TXNS
+
+    // no previous key, a single verification is priced
+    expect(beaconContract.getCosts(options).previousKeyVerifyFee).toEqual(0)
+
+    ctx.ledger.patchGlobalData({ round: 50 })
+    beaconContract.rotatePublicKey(libvrf.keypair().publicKey as unknown as VrfPublicKey, 100)
+
+    // the request can be fulfilled with the previous key until it expires, verifying the proof twice
+    const costs = beaconContract.getCosts(options)
+    expect(costs.previousKeyVerifyFee).toEqual(verificationFees)
+    const { fees, boxMbr, resultBoxMbr, previousKeyVerifyFee } = costs
+    const amount: uint64 = fees + boxMbr + resultBoxMbr + costs.premium
+
+    const requestIds = [0, 1, 2].map(() =>
+      createRequestFromApp(beaconContract, requesterApp.id, new arc4.Address(requesterAccount), 60, options, amount),
+    )
+
+    ctx.ledger.patchGlobalData({ round: 60 })
+    ctx.ledger.patchBlockData(60, {
+      seed: Bytes('abcdefghijklmnopqrstuvwxyzabcdef') as bytes<32>,
+    })
+    const { proof } = libvrf.prove(secretKey, op.Block.blkSeed(60).toString())
+    const vrfOutput = Bytes(new Uint8Array(64).fill(7)) as unknown as VrfOutput
+    const mockedVrfVerify = op.vrfVerify as Mock<typeof op.vrfVerify>
+    mockedVrfVerify.mockClear()
+    // the proof is only valid for the previous key
+    mockedVrfVerify.mockReturnValueOnce([vrfOutput, false]).mockReturnValueOnce([vrfOutput, true])
+
+    ctx.defaultSender = manager
+    beaconContract.completeRequests(60, [requestIds[0], requestIds[1]], Bytes(proof) as unknown as VrfProof)
+    expect(mockedVrfVerify).toHaveBeenCalledTimes(2)
+
+    // the first request pays for both verifications, the second gets both shares back
+    const previousKeyGroup = ctx.txn.lastGroup
+    expect(previousKeyGroup.getItxnGroup(0).getPaymentInnerTxn(0).amount).toEqual(fees)
+    expect(previousKeyGroup.getItxnGroup(1).getPaymentInnerTxn(0).amount).toEqual(boxMbr)
+    expect(previousKeyGroup.getItxnGroup(2).getPaymentInnerTxn(0).amount).toEqual(
+      fees - verificationFees - previousKeyVerifyFee,
+    )
+    expect(previousKeyGroup.getItxnGroup(3).getPaymentInnerTxn(0).amount).toEqual(
+      boxMbr + verificationFees + previousKeyVerifyFee,
+    )
+
+    // a proof of the active key is verified once, the second verification is refunded
+    mockedVrfVerify.mockReturnValueOnce([vrfOutput, true])
+    beaconContract.completeRequest(requestIds[2], Bytes(proof) as unknown as VrfProof)
+    expect(mockedVrfVerify).toHaveBeenCalledTimes(3)
+
+    const activeKeyGroup = ctx.txn.lastGroup
+    expect(activeKeyGroup.getItxnGroup(0).getPaymentInnerTxn(0).amount).toEqual(fees - previousKeyVerifyFee)
+    expect(activeKeyGroup.getItxnGroup(1).getPaymentInnerTxn(0).amount).toEqual(boxMbr + previousKeyVerifyFee)
+  })
+
   it('can call createRequest', () => {
     const { beaconContract, beaconApp } = deploy(10, 100, 1000)
     // make contract
@@ -163,7 +705,7 @@ describe('RandomnessBeacon contract', () => {
     const requesterAccount = ctx.any.account()
 
     // get costs
-    const { fees, boxMbr } = beaconContract.getCosts()
+    const { fees, boxMbr } = beaconContract.getCosts(requestOptions())
     // send to the caller app (this will pay beacon on our behalf)
     const costPayment = ctx.any.txn.payment({
       sender: requesterAccount,
@@ -209,7 +751,7 @@ describe('RandomnessBeacon contract', () => {
     // make new account to represent requester
     const requesterAccount = ctx.any.account()
     // get costs
-    const { fees, boxMbr } = beaconContract.getCosts()
+    const { fees, boxMbr } = beaconContract.getCosts(requestOptions())
     // build fee payment
     const feePayment = ctx.any.txn.payment({
       sender: requesterAccount,
@@ -296,8 +838,8 @@ describe('RandomnessBeacon contract', () => {
     spy.on.fulfillRandomness((itxnContext) => {
       const requestId: uint64 = arc4.decodeArc4(itxnContext.appArgs(1))
       //const requesterAddress: arc4.Address = arc4.decodeArc4(itxnContext.appArgs(2))
-      // first 16 bits are byte array length (not sure why not native bytes?)
-      const output: VrfOutput = itxnContext.appArgs(3).slice(2) as unknown as VrfOutput
+      // output is a static byte[64], no length prefix
+      const output: VrfOutput = itxnContext.appArgs(3) as unknown as VrfOutput
       console.log(requestId)
       console.log(output)
       // set the output in the requester contract
@@ -315,6 +857,1782 @@ describe('RandomnessBeacon contract', () => {
 
     // expect example caller contract to have been fulfilled, and output to match as expected
     expect(exampleCallerContract.totalFulfilled.value).toEqual(1)
-    expect(exampleCallerContract.output.value).toStrictEqual(Bytes(new Uint8Array(64).fill(7)) as unknown as VrfOutput)
+    expect(exampleCallerContract.output.value).toStrictEqual(
+      deriveRequestOutput(
+        new Uint8Array(64).fill(7),
+        BigInt(requestId),
+        BigInt(exampleCallerApp.id),
+        toExternalValue(requesterAccount.bytes),
+        new Uint8Array(32),
+      ),
+    )
+  })
+
+  it('ExampleCaller only accepts deliveries of the beacon app for its own request', () => {
+    const { beaconContract, beaconApp } = deploy(10, 100, 1000)
+    const exampleCallerContract = ctx.contract.create(ExampleCaller)
+    exampleCallerContract.createApplication(beaconApp)
+    const exampleCallerApp = ctx.ledger.getApplicationForContract(exampleCallerContract)
+    const requesterAccount = ctx.any.account()
+    const { fees, boxMbr } = beaconContract.getCosts(requestOptions())
+
+    ctx.defaultSender = requesterAccount
+    const [requestId] = exampleCallerContract.test1(
+      ctx.any.txn.payment({ sender: requesterAccount, receiver: exampleCallerApp.address, amount: fees + boxMbr }),
+    )
+    const output = Bytes(new Uint8Array(64).fill(7)) as unknown as VrfOutput
+
+    // a direct call forging the beacon delivery is rejected
+    const forger = ctx.any.application()
+    ctx.ledger.patchGlobalData({ callerApplicationId: forger.id })
+    expect(() =>
+      exampleCallerContract.fulfillRandomness(requestId, new arc4.Address(requesterAccount), output),
+    ).toThrow('only the beacon app can deliver randomness')
+    expect(() => exampleCallerContract.fulfillRandomWords(requestId, new arc4.Address(requesterAccount), [])).toThrow(
+      'only the beacon app can deliver randomness',
+    )
+
+    // the beacon app can only deliver the request the example created
+    ctx.ledger.patchGlobalData({ callerApplicationId: beaconApp.id })
+    expect(() =>
+      exampleCallerContract.fulfillRandomness(requestId + 1, new arc4.Address(requesterAccount), output),
+    ).toThrow('request must have been created by this app')
+
+    exampleCallerContract.fulfillRandomness(requestId, new arc4.Address(requesterAccount), output)
+    expect(exampleCallerContract.totalFulfilled.value).toEqual(1)
+    expect(exampleCallerContract.output.value).toStrictEqual(output)
+  })
+
+  it('Can call completeRequests() for many requests on the same round', () => {
+    const { beaconContract, beaconApp, secretKey, manager } = deploy(10, 100, 1000)
+    // create example caller contract
+    const exampleCallerContract = ctx.contract.create(ExampleCaller)
+    exampleCallerContract.createApplication(beaconApp)
+    const exampleCallerApp = ctx.ledger.getApplicationForContract(exampleCallerContract)
+    // set for test so ApplicationSpy hooks know
+    exampleCallerAppId = exampleCallerApp.id
+
+    const { fees, boxMbr } = beaconContract.getCosts(requestOptions())
+
+    // make 2 requests in the same round, both target the next round
+    const requests = [ctx.any.account(), ctx.any.account()].map((requesterAccount) => {
+      ctx.ledger.patchGlobalData({ round: 10 })
+      ctx.defaultSender = requesterAccount
+      return exampleCallerContract.test1(
+        ctx.any.txn.payment({
+          sender: requesterAccount,
+          receiver: exampleCallerApp.address,
+          amount: fees + boxMbr,
+        }),
+      )
+    })
+    const round = requests[0][1]
+    expect(requests[1][1]).toEqual(round)
+
+    ctx.ledger.patchGlobalData({ round: round })
+    ctx.ledger.patchBlockData(round, {
+      seed: Bytes('abcdefghijklmnopqrstuvwxyzabcdef') as bytes<32>,
+    })
+
+    const mockedVrfVerify = op.vrfVerify as Mock<typeof op.vrfVerify>
+    mockedVrfVerify.mockClear()
+    mockedVrfVerify.mockReturnValue([Bytes(new Uint8Array(64).fill(7)) as unknown as VrfOutput, true])
+
+    // keep every output delivered to the example caller
+    const outputs: VrfOutput[] = []
+    const spy = new ApplicationSpy(ExampleCaller)
+    spy.on.fulfillRandomness((itxnContext) => {
+      outputs.push(itxnContext.appArgs(3) as unknown as VrfOutput)
+      exampleCallerContract.totalFulfilled.value += 1
+    })
+    ctx.addApplicationSpy(spy)
+
+    const { proof } = libvrf.prove(secretKey, op.Block.blkSeed(round).toString())
+
+    ctx.defaultSender = manager
+    beaconContract.completeRequests(
+      round,
+      requests.map(([requestId]) => requestId),
+      Bytes(proof) as unknown as VrfProof,
+    )
+
+    // the first request pays for the verification, the second gets its share back with its box refund
+    const fulfillGroup = ctx.txn.lastGroup
+    const verificationFees = Global.minTxnFee * VRF_VERIFY_TXNS
+    expect(fulfillGroup.getItxnGroup(1).getPaymentInnerTxn(0).amount).toEqual(fees)
+    expect(fulfillGroup.getItxnGroup(4).getPaymentInnerTxn(0).amount).toEqual(fees - verificationFees)
+    expect(fulfillGroup.getItxnGroup(5).getPaymentInnerTxn(0).amount).toEqual(boxMbr + verificationFees)
+
+    // proof verified once, both requests fulfilled and deleted
+    expect(mockedVrfVerify).toHaveBeenCalledTimes(1)
+    expect(exampleCallerContract.totalFulfilled.value).toEqual(2)
+    expect(beaconContract.totalPendingRequests.value).toEqual(0)
+    expect(beaconContract.requests(requests[0][0]).exists).toBe(false)
+    expect(beaconContract.requests(requests[1][0]).exists).toBe(false)
+    // same round, but each request gets its own output
+    expect(outputs).toHaveLength(2)
+    expect(outputs[0]).not.toStrictEqual(outputs[1])
+  })
+
+  it('createRequest() rejects more than the max num words', () => {
+    const { beaconContract } = deploy(10, 100, 1000)
+    const requesterApp = ctx.any.application()
+    const options = requestOptions({ numWords: MAX_NUM_WORDS + 1 })
+    const { fees, boxMbr } = beaconContract.getCosts(options)
+
+    expect(() =>
+      createRequestFromApp(
+        beaconContract,
+        requesterApp.id,
+        new arc4.Address(ctx.any.account()),
+        Global.round + 1,
+        options,
+        fees + boxMbr,
+      ),
+    ).toThrow(ERR_NUM_WORDS_EXCEEDS_MAX)
+  })
+
+  it('getCosts() prices the random words expansion', () => {
+    const { beaconContract } = deploy(10, 100, 1000)
+
+    const { fees, boxMbr } = beaconContract.getCosts(requestOptions())
+    const { fees: wordsFees, boxMbr: wordsBoxMbr } = beaconContract.getCosts(
+      requestOptions({ numWords: MAX_NUM_WORDS }),
+    )
+
+    // the request box is the same size, the expansion needs extra opcode budget
+    expect(wordsBoxMbr).toEqual(boxMbr)
+    expect(BigInt(wordsFees)).toBeGreaterThan(BigInt(fees))
+  })
+
+  it('Can call completeRequest() for random words', () => {
+    const { beaconContract, beaconApp, secretKey, manager } = deploy(10, 100, 1000)
+    const exampleCallerContract = ctx.contract.create(ExampleCaller)
+    exampleCallerContract.createApplication(beaconApp)
+    const exampleCallerApp = ctx.ledger.getApplicationForContract(exampleCallerContract)
+    const requesterAccount = ctx.any.account()
+    // set for test so ApplicationSpy hooks know
+    exampleCallerAppId = exampleCallerApp.id
+
+    const numWords: uint64 = 3
+    const { fees, boxMbr } = beaconContract.getCosts(requestOptions({ numWords: numWords }))
+
+    ctx.defaultSender = requesterAccount
+    const [requestId, round] = exampleCallerContract.test2(
+      requestOptions({ numWords: numWords }),
+      ctx.any.txn.payment({ sender: requesterAccount, receiver: exampleCallerApp.address, amount: fees + boxMbr }),
+    )
+    expect(BigInt(beaconContract.requests(requestId).value.options.numWords)).toEqual(BigInt(numWords))
+
+    ctx.ledger.patchGlobalData({ round: round })
+    ctx.ledger.patchBlockData(round, {
+      seed: Bytes('abcdefghijklmnopqrstuvwxyzabcdef') as bytes<32>,
+    })
+
+    const mockedVrfVerify = op.vrfVerify as Mock<typeof op.vrfVerify>
+    mockedVrfVerify.mockReturnValue([Bytes(new Uint8Array(64).fill(7)) as unknown as VrfOutput, true])
+
+    const spy = new ApplicationSpy(ExampleCaller)
+    spy.on.fulfillRandomWords((itxnContext) => {
+      // the testing library encodes the words back to back, without the array length prefix
+      const words = itxnContext.appArgs(3)
+      exampleCallerContract.firstWord.value = words.slice(0, 32).toFixed({ length: 32 })
+      exampleCallerContract.totalWords.value += words.length / 32
+      exampleCallerContract.totalFulfilled.value += 1
+    })
+    ctx.addApplicationSpy(spy)
+
+    const { proof } = libvrf.prove(secretKey, op.Block.blkSeed(round).toString())
+
+    ctx.defaultSender = manager
+    beaconContract.completeRequest(requestId, Bytes(proof) as unknown as VrfProof)
+
+    // words are expanded from the request output
+    const output = deriveRequestOutput(
+      new Uint8Array(64).fill(7),
+      BigInt(requestId),
+      BigInt(exampleCallerApp.id),
+      toExternalValue(requesterAccount.bytes),
+      new Uint8Array(32),
+    )
+    const firstWord = createHash('sha512-256')
+      .update(Buffer.concat([toExternalValue(output), Buffer.alloc(8)]))
+      .digest()
+
+    expect(exampleCallerContract.totalFulfilled.value).toEqual(1)
+    expect(BigInt(exampleCallerContract.totalWords.value)).toEqual(BigInt(numWords))
+    expect(toExternalValue(exampleCallerContract.firstWord.value)).toEqual(new Uint8Array(firstWord))
+  })
+
+  it('Can call completeRequest() with a requester funded callback fee', () => {
+    const { beaconContract, beaconApp, secretKey, manager } = deploy(10, 100, 1000)
+    const exampleCallerContract = ctx.contract.create(ExampleCaller)
+    exampleCallerContract.createApplication(beaconApp)
+    const exampleCallerApp = ctx.ledger.getApplicationForContract(exampleCallerContract)
+    const requesterAccount = ctx.any.account()
+
+    // callback needs 4 extra txns worth of fees
+    const options = requestOptions({ callbackFee: Global.minTxnFee * 5 })
+    const { fees, boxMbr, callbackFee } = beaconContract.getCosts(options)
+    expect(callbackFee).toEqual(Global.minTxnFee * 5)
+
+    // set for test so ApplicationSpy hooks know
+    exampleCallerAppId = exampleCallerApp.id
+
+    ctx.defaultSender = requesterAccount
+    const [requestId, round] = exampleCallerContract.test2(
+      options,
+      ctx.any.txn.payment({
+        sender: requesterAccount,
+        receiver: exampleCallerApp.address,
+        amount: fees + boxMbr + callbackFee,
+      }),
+    )
+    // callback fee is kept apart from the fees paid to the caller
+    const request = beaconContract.requests(requestId).value
+    expect(request.costs.fees).toEqual(fees)
+    expect(request.costs.callbackFee).toEqual(callbackFee)
+
+    ctx.ledger.patchGlobalData({ round: round })
+    ctx.ledger.patchBlockData(round, {
+      seed: Bytes('abcdefghijklmnopqrstuvwxyzabcdef') as bytes<32>,
+    })
+
+    const mockedVrfVerify = op.vrfVerify as Mock<typeof op.vrfVerify>
+    mockedVrfVerify.mockReturnValue([Bytes(new Uint8Array(64).fill(7)) as unknown as VrfOutput, true])
+
+    const spy = new ApplicationSpy(ExampleCaller)
+    spy.on.fulfillRandomness(() => {
+      exampleCallerContract.totalFulfilled.value += 1
+    })
+    ctx.addApplicationSpy(spy)
+
+    const { proof } = libvrf.prove(secretKey, op.Block.blkSeed(round).toString())
+
+    ctx.defaultSender = manager
+    beaconContract.completeRequest(requestId, Bytes(proof) as unknown as VrfProof)
+
+    // callback fee is forwarded to the callback app call
+    const callback = ctx.txn.lastGroup.getItxnGroup(0).getApplicationCallInnerTxn(0)
+    expect(callback.appId.id).toEqual(exampleCallerApp.id)
+    expect(callback.fee).toEqual(callbackFee)
+    expect(exampleCallerContract.totalFulfilled.value).toEqual(1)
+  })
+
+  it('rejects pull mode requests asking for words or a callback fee', () => {
+    const { beaconContract } = deploy(10, 100, 1000)
+    const requesterApp = ctx.any.application()
+    const requesterAddress = new arc4.Address(ctx.any.account())
+    const options = requestOptions({ numWords: 1, pullMode: true })
+    const { fees, boxMbr, resultBoxMbr } = beaconContract.getCosts(options)
+
+    expect(() =>
+      createRequestFromApp(
+        beaconContract,
+        requesterApp.id,
+        requesterAddress,
+        Global.round + 1,
+        options,
+        fees + boxMbr + resultBoxMbr,
+      ),
+    ).toThrow(ERR_PULL_MODE_OPTIONS)
+  })
+
+  it('Can call completeRequest() and claimRandomness() for a pull mode request', () => {
+    const { beaconContract, beaconApp, secretKey, manager } = deploy(10, 100, 1000)
+    const exampleCallerContract = ctx.contract.create(ExampleCaller)
+    exampleCallerContract.createApplication(beaconApp)
+    const exampleCallerApp = ctx.ledger.getApplicationForContract(exampleCallerContract)
+    const requesterAccount = ctx.any.account()
+
+    const options = requestOptions({ pullMode: true })
+    const { fees, boxMbr, resultBoxMbr } = beaconContract.getCosts(options)
+    // only pull mode requests pay for the result box, and they are not charged for a callback
+    expect(beaconContract.getCosts(requestOptions()).resultBoxMbr).toEqual(0)
+    expect(BigInt(resultBoxMbr)).toBeGreaterThan(0n)
+    expect(fees).toEqual(beaconContract.getCosts(requestOptions()).fees - Global.minTxnFee)
+
+    // set for test so ApplicationSpy hooks know
+    exampleCallerAppId = exampleCallerApp.id
+
+    ctx.defaultSender = requesterAccount
+    const [requestId, round] = exampleCallerContract.test2(
+      options,
+      ctx.any.txn.payment({
+        sender: requesterAccount,
+        receiver: exampleCallerApp.address,
+        amount: fees + boxMbr + resultBoxMbr,
+      }),
+    )
+    expect(beaconContract.requests(requestId).value.costs.resultBoxMbr).toEqual(resultBoxMbr)
+
+    ctx.ledger.patchGlobalData({ round: round })
+    ctx.ledger.patchBlockData(round, {
+      seed: Bytes('abcdefghijklmnopqrstuvwxyzabcdef') as bytes<32>,
+    })
+
+    const vrfOutput = new Uint8Array(64).fill(9)
+    const mockedVrfVerify = op.vrfVerify as Mock<typeof op.vrfVerify>
+    mockedVrfVerify.mockReturnValue([Bytes(vrfOutput) as unknown as VrfOutput, true])
+
+    const { proof } = libvrf.prove(secretKey, op.Block.blkSeed(round).toString())
+
+    ctx.defaultSender = manager
+    beaconContract.completeRequest(requestId, Bytes(proof) as unknown as VrfProof)
+
+    // no callback, the output waits in the result box
+    expect(exampleCallerContract.totalFulfilled.value).toEqual(0)
+    expect(beaconContract.requests(requestId).exists).toEqual(false)
+    expect(beaconContract.results(requestId).exists).toEqual(true)
+
+    const expectedOutput = deriveRequestOutput(
+      vrfOutput,
+      BigInt(requestId),
+      BigInt(exampleCallerApp.id),
+      toExternalValue(requesterAccount.bytes),
+      new Uint8Array(32),
+    )
+
+    // only the requester app can claim
+    ctx.ledger.patchGlobalData({ callerApplicationId: ctx.any.application().id })
+    expect(() => beaconContract.claimRandomness(requestId)).toThrow(ERR_MUST_BE_REQUESTER)
+
+    ctx.ledger.patchGlobalData({ callerApplicationId: exampleCallerApp.id })
+    const output = ctx.txn
+      .createScope([ctx.any.txn.applicationCall({ appId: beaconApp, sender: exampleCallerApp.address })])
+      .execute(() => beaconContract.claimRandomness(requestId))
+
+    expect(toExternalValue(output)).toEqual(toExternalValue(expectedOutput))
+    // result box is freed and its cost refunded to the requester
+    expect(beaconContract.results(requestId).exists).toEqual(false)
+    const refund = ctx.txn.lastGroup.getItxnGroup(0).getPaymentInnerTxn(0)
+    expect(refund.receiver).toEqual(requesterAccount)
+    expect(refund.amount).toEqual(resultBoxMbr)
+  })
+
+  it('archives the round output for requests asking for it', () => {
+    const { beaconContract, beaconApp, secretKey, manager } = deploy(10, 100, 1000)
+    const exampleCallerContract = ctx.contract.create(ExampleCaller)
+    exampleCallerContract.createApplication(beaconApp)
+    const exampleCallerApp = ctx.ledger.getApplicationForContract(exampleCallerContract)
+    // set for test so ApplicationSpy hooks know
+    exampleCallerAppId = exampleCallerApp.id
+
+    const options = requestOptions({ archive: true })
+    const { fees, boxMbr, archiveBoxMbr } = beaconContract.getCosts(options)
+    // only archiving requests pay for the archive box
+    expect(beaconContract.getCosts(requestOptions()).archiveBoxMbr).toEqual(0)
+    expect(BigInt(archiveBoxMbr)).toBeGreaterThan(0n)
+
+    // 2 archiving requests for the same round, only the first one pays for the archive box
+    const requesterAccounts = [ctx.any.account(), ctx.any.account()]
+    const requests = requesterAccounts.map((requesterAccount) => {
+      ctx.ledger.patchGlobalData({ round: 10 })
+      ctx.defaultSender = requesterAccount
+      return exampleCallerContract.test2(
+        options,
+        ctx.any.txn.payment({
+          sender: requesterAccount,
+          receiver: exampleCallerApp.address,
+          amount: fees + boxMbr + archiveBoxMbr,
+        }),
+      )
+    })
+    const round = requests[0][1]
+
+    ctx.ledger.patchGlobalData({ round: round })
+    ctx.ledger.patchBlockData(round, {
+      seed: Bytes('abcdefghijklmnopqrstuvwxyzabcdef') as bytes<32>,
+    })
+
+    const vrfOutput = Bytes(new Uint8Array(64).fill(3), { length: 64 })
+    const mockedVrfVerify = op.vrfVerify as Mock<typeof op.vrfVerify>
+    mockedVrfVerify.mockReturnValue([vrfOutput, true])
+
+    const spy = new ApplicationSpy(ExampleCaller)
+    spy.on.fulfillRandomness(() => {
+      exampleCallerContract.totalFulfilled.value += 1
+    })
+    ctx.addApplicationSpy(spy)
+
+    expect(beaconContract.archive(round).exists).toBe(false)
+
+    const { proof } = libvrf.prove(secretKey, op.Block.blkSeed(round).toString())
+
+    ctx.defaultSender = manager
+    beaconContract.completeRequests(
+      round,
+      requests.map(([requestId]) => requestId),
+      Bytes(proof) as unknown as VrfProof,
+    )
+
+    // the second request gets its archive box cost and its share of the verification back with its box refund
+    const secondRefund = ctx.txn.lastGroup.getItxnGroup(5).getPaymentInnerTxn(0)
+    expect(secondRefund.receiver).toEqual(requesterAccounts[1])
+    expect(secondRefund.amount).toEqual(boxMbr + archiveBoxMbr + Global.minTxnFee * VRF_VERIFY_TXNS)
+    expect(secondRefund.note).toEqual(Bytes(NOTE_OVERPAYMENT_REFUND))
+    // the verified round output is readable by anyone
+    expect(beaconContract.getRandomness(round)).toStrictEqual(vrfOutput)
+    expect(beaconContract.archive(round).value.payer.native).toEqual(requesterAccounts[0])
+
+    // kept forever until the manager sets a retention
+    expect(() => beaconContract.pruneRandomness(round)).toThrow(ERR_ARCHIVE_RETENTION_NOT_EXPIRED)
+    beaconContract.setArchiveRetention(10)
+    expect(() => beaconContract.pruneRandomness(round)).toThrow(ERR_ARCHIVE_RETENTION_NOT_EXPIRED)
+
+    // anyone can prune once the retention has expired, the payer gets the archive box cost back
+    ctx.ledger.patchGlobalData({ round: round + 11 })
+    ctx.txn
+      .createScope([ctx.any.txn.applicationCall({ appId: beaconApp, sender: ctx.any.account() })])
+      .execute(() => beaconContract.pruneRandomness(round))
+
+    const pruneRefund = ctx.txn.lastGroup.getItxnGroup(0).getPaymentInnerTxn(0)
+    expect(pruneRefund.receiver).toEqual(requesterAccounts[0])
+    expect(pruneRefund.amount).toEqual(archiveBoxMbr)
+    expect(() => beaconContract.getRandomness(round)).toThrow(ERR_ROUND_NOT_ARCHIVED)
+  })
+
+  it('only the manager can set the archive retention', () => {
+    const { beaconContract } = deploy(10, 100, 1000)
+
+    ctx.defaultSender = ctx.any.account()
+
+    expect(() => beaconContract.setArchiveRetention(10)).toThrow('only manager can perform this action')
+  })
+
+  /**
+   * Calls createAccountRequest directly, as a top level call of the requester account
+   */
+  const createAccountRequest = (
+    beaconContract: RandomnessBeacon,
+    requesterAccount: Account,
+    round: uint64,
+    options: RandomnessRequestOptions,
+    amount: uint64,
+  ): uint64 => {
+    const beaconApp = ctx.ledger.getApplicationForContract(beaconContract)
+    const costsPayment = ctx.any.txn.payment({
+      sender: requesterAccount,
+      receiver: beaconApp.address,
+      amount: amount,
+    })
+
+    return ctx.txn
+      .createScope([costsPayment, ctx.any.txn.applicationCall({ appId: beaconApp, sender: requesterAccount })])
+      .execute(() => beaconContract.createAccountRequest(round, options, costsPayment))
+  }
+
+  it('createAccountRequest() requires pull mode', () => {
+    const { beaconContract } = deploy(10, 100, 1000)
+    const options = requestOptions()
+    const { fees, boxMbr } = beaconContract.getCosts(options)
+
+    expect(() =>
+      createAccountRequest(beaconContract, ctx.any.account(), Global.round + 1, options, fees + boxMbr),
+    ).toThrow(ERR_ACCOUNT_REQUEST_MUST_USE_PULL_MODE)
+  })
+
+  it('Can complete and claim a request made by an account', () => {
+    const { beaconContract, beaconApp, secretKey, manager } = deploy(10, 100, 1000)
+    const requesterAccount = ctx.any.account()
+
+    const options = requestOptions({ pullMode: true })
+    const { fees, boxMbr, resultBoxMbr } = beaconContract.getCosts(options)
+
+    ctx.ledger.patchGlobalData({ round: 10 })
+    const requestId = createAccountRequest(beaconContract, requesterAccount, 11, options, fees + boxMbr + resultBoxMbr)
+
+    // there is no requester app to call back, the sender is the requester
+    const request = beaconContract.requests(requestId).value
+    expect(BigInt(request.requesterAppId)).toEqual(0n)
+    expect(request.requesterAddress.native).toEqual(requesterAccount)
+    expect(BigInt(request.callback.appId)).toEqual(0n)
+
+    ctx.ledger.patchGlobalData({ round: 11 })
+    ctx.ledger.patchBlockData(11, {
+      seed: Bytes('abcdefghijklmnopqrstuvwxyzabcdef') as bytes<32>,
+    })
+
+    const vrfOutput = new Uint8Array(64).fill(5)
+    const mockedVrfVerify = op.vrfVerify as Mock<typeof op.vrfVerify>
+    mockedVrfVerify.mockReturnValue([Bytes(vrfOutput) as unknown as VrfOutput, true])
+
+    const { proof } = libvrf.prove(secretKey, op.Block.blkSeed(11).toString())
+
+    ctx.defaultSender = manager
+    beaconContract.completeRequest(requestId, Bytes(proof) as unknown as VrfProof)
+
+    // no callback, only the fees payment and the box refund are sent
+    const fulfillGroup = ctx.txn.lastGroup
+    expect(fulfillGroup.getItxnGroup(0).getPaymentInnerTxn(0).receiver).toEqual(manager)
+    expect(fulfillGroup.getItxnGroup(1).getPaymentInnerTxn(0).receiver).toEqual(requesterAccount)
+    expect(beaconContract.getRequestStatus(requestId)).toEqual(REQUEST_STATUS_FULFILLED)
+
+    const expectedOutput = deriveRequestOutput(
+      vrfOutput,
+      BigInt(requestId),
+      0n,
+      toExternalValue(requesterAccount.bytes),
+      new Uint8Array(32),
+    )
+    expect(toExternalValue(beaconContract.getResult(requestId))).toEqual(toExternalValue(expectedOutput))
+
+    // only the requester account can claim
+    expect(() =>
+      ctx.txn
+        .createScope([ctx.any.txn.applicationCall({ appId: beaconApp, sender: ctx.any.account() })])
+        .execute(() => beaconContract.claimRandomness(requestId)),
+    ).toThrow(ERR_MUST_BE_REQUESTER)
+
+    const output = ctx.txn
+      .createScope([ctx.any.txn.applicationCall({ appId: beaconApp, sender: requesterAccount })])
+      .execute(() => beaconContract.claimRandomness(requestId))
+
+    expect(toExternalValue(output)).toEqual(toExternalValue(expectedOutput))
+    expect(beaconContract.results(requestId).exists).toEqual(false)
+  })
+
+  /**
+   * Creates a subscription owned by the owner account
+   */
+  const createSubscription = (beaconContract: RandomnessBeacon, owner: Account, amount: uint64): uint64 => {
+    const beaconApp = ctx.ledger.getApplicationForContract(beaconContract)
+    const payment = ctx.any.txn.payment({ sender: owner, receiver: beaconApp.address, amount: amount })
+
+    return ctx.txn
+      .createScope([payment, ctx.any.txn.applicationCall({ appId: beaconApp, sender: owner })])
+      .execute(() => beaconContract.createSubscription(payment))
+  }
+
+  it('Can create, fund and manage a subscription', () => {
+    const { beaconContract, beaconApp, manager } = deploy(10, 100, 1000)
+    const owner = ctx.any.account()
+    const consumerApp = ctx.any.application({ creator: owner })
+    const { boxMbr, consumerBoxMbr } = beaconContract.getSubscriptionCosts()
+
+    // the subscription box cost is kept, the rest is deposited
+    const subscriptionId = createSubscription(beaconContract, owner, boxMbr + 1_000_000)
+    const balance = () => BigInt(beaconContract.subscriptions(subscriptionId).value.balance)
+    expect(subscriptionId).toEqual(1)
+    expect(beaconContract.subscriptions(subscriptionId).value.owner.native).toEqual(owner)
+    expect(balance()).toEqual(BigInt(1_000_000))
+
+    // anyone can deposit
+    const depositor = ctx.any.account()
+    const deposit = ctx.any.txn.payment({ sender: depositor, receiver: beaconApp.address, amount: 500_000 })
+    ctx.txn
+      .createScope([deposit, ctx.any.txn.applicationCall({ appId: beaconApp, sender: depositor })])
+      .execute(() => beaconContract.deposit(subscriptionId, deposit))
+    expect(balance()).toEqual(BigInt(1_500_000))
+
+    // an app created by someone else must register itself
+    const otherApp = ctx.any.application()
+    const addOtherApp = () =>
+      callAs(beaconContract, owner, () => beaconContract.addConsumer(subscriptionId, otherApp.id))
+    expect(addOtherApp).toThrow(ERR_CONSUMER_MUST_CONSENT)
+    ctx.ledger.patchGlobalData({ callerApplicationId: otherApp.id })
+    addOtherApp()
+    expect(beaconContract.consumers(otherApp.id).value).toEqual(subscriptionId)
+    ctx.ledger.patchGlobalData({ callerApplicationId: 0 })
+    callAs(beaconContract, owner, () => beaconContract.removeConsumer(subscriptionId, otherApp.id))
+
+    // the consumer box cost is debited from the balance
+    ctx.defaultSender = owner
+    beaconContract.addConsumer(subscriptionId, consumerApp.id)
+    expect(beaconContract.consumers(consumerApp.id).value).toEqual(subscriptionId)
+    expect(balance()).toEqual(BigInt(1_500_000 - consumerBoxMbr))
+
+    // removing the consumer credits its box cost back
+    beaconContract.removeConsumer(subscriptionId, consumerApp.id)
+    expect(beaconContract.consumers(consumerApp.id).exists).toBe(false)
+    expect(balance()).toEqual(BigInt(1_500_000))
+
+    // the app cannot be deleted with the balance owed to the owner
+    expect(BigInt(beaconContract.subscriptionBalances.value)).toEqual(1_500_000n)
+    const deleteApplication = () =>
+      ctx.txn
+        .createScope([
+          ctx.any.txn.applicationCall({
+            appId: beaconApp,
+            sender: manager,
+            onCompletion: OnCompleteAction.DeleteApplication,
+          }),
+        ])
+        .execute(() => beaconContract.deleteApplication())
+    expect(deleteApplication).toThrow(ERR_SUBSCRIPTION_BALANCES)
+
+    // the owner can withdraw what is left
+    expect(() => callAs(beaconContract, owner, () => beaconContract.withdraw(subscriptionId, 1_500_001))).toThrow(
+      ERR_INSUFFICIENT_SUBSCRIPTION_BALANCE,
+    )
+    ctx.txn
+      .createScope([ctx.any.txn.applicationCall({ appId: beaconApp, sender: owner })])
+      .execute(() => beaconContract.withdraw(subscriptionId, 1_500_000))
+
+    const withdrawal = ctx.txn.lastGroup.getItxnGroup(0).getPaymentInnerTxn(0)
+    expect(withdrawal.receiver).toEqual(owner)
+    expect(withdrawal.amount).toEqual(1_500_000)
+    expect(balance()).toEqual(BigInt(0))
+    expect(BigInt(beaconContract.subscriptionBalances.value)).toEqual(0n)
+
+    // the subscription box cost is owed to the owner until it is closed
+    expect(deleteApplication).toThrow(ERR_OPEN_SUBSCRIPTIONS)
+
+    // only the owner manages the subscription
+    ctx.defaultSender = depositor
+    expect(() => beaconContract.addConsumer(subscriptionId, consumerApp.id)).toThrow(ERR_ONLY_SUBSCRIPTION_OWNER)
+    expect(() => beaconContract.withdraw(subscriptionId, 0)).toThrow(ERR_ONLY_SUBSCRIPTION_OWNER)
+  })
+
+  it('the owner can close a subscription once it has no consumers or pending requests', () => {
+    const { beaconContract, beaconApp } = deploy(10, 100, 1000)
+    const owner = ctx.any.account()
+    const consumerApp = ctx.any.application({ creator: owner })
+    const requesterAccount = ctx.any.account()
+    const { boxMbr: subscriptionBoxMbr, consumerBoxMbr } = beaconContract.getSubscriptionCosts()
+    const { fees, boxMbr } = beaconContract.getCosts(requestOptions())
+
+    const subscriptionId = createSubscription(
+      beaconContract,
+      owner,
+      subscriptionBoxMbr + consumerBoxMbr + fees + boxMbr + 100_000,
+    )
+    expect(BigInt(beaconContract.openSubscriptions.value)).toEqual(1n)
+    callAs(beaconContract, owner, () => beaconContract.addConsumer(subscriptionId, consumerApp.id))
+
+    ctx.ledger.patchGlobalData({ round: 10, callerApplicationId: consumerApp.id })
+    const requestId = callAs(beaconContract, consumerApp.address, () =>
+      beaconContract.createSubscriptionRequest(new arc4.Address(requesterAccount), 11, requestOptions()),
+    )
+    ctx.ledger.patchGlobalData({ callerApplicationId: 0 })
+    expect(BigInt(beaconContract.subscriptions(subscriptionId).value.pendingRequests)).toEqual(1n)
+
+    const closeSubscription = () =>
+      ctx.txn
+        .createScope([ctx.any.txn.applicationCall({ appId: beaconApp, sender: owner })])
+        .execute(() => beaconContract.closeSubscription(subscriptionId))
+
+    expect(() =>
+      callAs(beaconContract, requesterAccount, () => beaconContract.closeSubscription(subscriptionId)),
+    ).toThrow(ERR_ONLY_SUBSCRIPTION_OWNER)
+    // its pending requests are refunded to it
+    expect(closeSubscription).toThrow(ERR_SUBSCRIPTION_HAS_PENDING_REQUESTS)
+
+    callAs(beaconContract, requesterAccount, () => beaconContract.cancelRequest(requestId))
+    expect(BigInt(beaconContract.subscriptions(subscriptionId).value.pendingRequests)).toEqual(0n)
+    // its consumers would be left paying from it
+    expect(closeSubscription).toThrow(ERR_SUBSCRIPTION_HAS_CONSUMERS)
+
+    callAs(beaconContract, owner, () => beaconContract.removeConsumer(subscriptionId, consumerApp.id))
+    const balance = beaconContract.subscriptions(subscriptionId).value.balance
+    expect(BigInt(balance)).toBeGreaterThan(0n)
+
+    // the balance and the box cost are refunded to the owner
+    closeSubscription()
+    const refund = ctx.txn.lastGroup.getItxnGroup(0).getPaymentInnerTxn(0)
+    expect(refund.receiver).toEqual(owner)
+    expect(refund.amount).toEqual(balance + subscriptionBoxMbr)
+    expect(refund.note).toEqual(Bytes(NOTE_SUBSCRIPTION_CLOSE_REFUND))
+    expect(beaconContract.subscriptions(subscriptionId).exists).toBe(false)
+    expect(BigInt(beaconContract.openSubscriptions.value)).toEqual(0n)
+    expect(BigInt(beaconContract.subscriptionBalances.value)).toEqual(0n)
+    expect(closeSubscription).toThrow()
+  })
+
+  it('createSubscriptionRequest() requires a registered consumer with enough balance', () => {
+    const { beaconContract, beaconApp } = deploy(10, 100, 1000)
+    const owner = ctx.any.account()
+    const consumerApp = ctx.any.application({ creator: owner })
+    const requesterAddress = new arc4.Address(ctx.any.account())
+    const { boxMbr, consumerBoxMbr } = beaconContract.getSubscriptionCosts()
+
+    const createSubscriptionRequest = () =>
+      ctx.txn
+        .createScope([ctx.any.txn.applicationCall({ appId: beaconApp, sender: consumerApp.address })])
+        .execute(() => beaconContract.createSubscriptionRequest(requesterAddress, Global.round + 1, requestOptions()))
+
+    ctx.ledger.patchGlobalData({ callerApplicationId: consumerApp.id })
+    expect(createSubscriptionRequest).toThrow(ERR_CONSUMER_NOT_REGISTERED)
+
+    // only enough balance for the consumer box
+    const subscriptionId = createSubscription(beaconContract, owner, boxMbr + consumerBoxMbr)
+    ctx.defaultSender = owner
+    beaconContract.addConsumer(subscriptionId, consumerApp.id)
+
+    expect(createSubscriptionRequest).toThrow(ERR_INSUFFICIENT_SUBSCRIPTION_BALANCE)
+  })
+
+  it('credits refunds of subscription requests to the subscription', () => {
+    const { beaconContract, beaconApp } = deploy(10, 100, 1000)
+    const owner = ctx.any.account()
+    const consumerApp = ctx.any.application({ creator: owner })
+    const requesterAccount = ctx.any.account()
+    const { boxMbr: subscriptionBoxMbr, consumerBoxMbr } = beaconContract.getSubscriptionCosts()
+    const options = requestOptions()
+    const { fees, boxMbr } = beaconContract.getCosts(options)
+
+    // enough balance for the consumer box and a single request
+    const subscriptionId = createSubscription(
+      beaconContract,
+      owner,
+      subscriptionBoxMbr + consumerBoxMbr + fees + boxMbr,
+    )
+    callAs(beaconContract, owner, () => beaconContract.addConsumer(subscriptionId, consumerApp.id))
+
+    ctx.ledger.patchGlobalData({ round: 10, callerApplicationId: consumerApp.id })
+    const requestId = callAs(beaconContract, consumerApp.address, () =>
+      beaconContract.createSubscriptionRequest(new arc4.Address(requesterAccount), 11, options),
+    )
+
+    // the exact costs are debited, nothing is paid with the request
+    const request = beaconContract.requests(requestId).value
+    expect(BigInt(request.subscriptionId)).toEqual(BigInt(subscriptionId))
+    expect(BigInt(request.overpayment)).toEqual(0n)
+    expect(BigInt(beaconContract.subscriptions(subscriptionId).value.balance)).toEqual(0n)
+    expect(BigInt(beaconContract.subscriptionBalances.value)).toEqual(0n)
+    ctx.ledger.patchGlobalData({ callerApplicationId: 0 })
+
+    // cancelled by a third party once stale
+    ctx.ledger.patchGlobalData({ round: 11 + 1000 + 1 })
+    const caller = ctx.any.account()
+    ctx.txn
+      .createScope([ctx.any.txn.applicationCall({ appId: beaconApp, sender: caller })])
+      .execute(() => beaconContract.cancelRequest(requestId))
+
+    // the caller is paid for the cancellation, the rest is credited instead of paid to the requester
+    const group = ctx.txn.lastGroup
+    expect(group.getItxnGroup(0).getPaymentInnerTxn(0).receiver).toEqual(caller)
+    expect(() => group.getItxnGroup(1)).toThrow()
+    // the first cancelled request keeps the page box cost of its boxMbr, paying for its page of the bitmap
+    expect(beaconContract.subscriptions(subscriptionId).value.balance).toEqual(
+      fees + boxMbr - Global.minTxnFee * 3 - beaconContract.getCancelledPageBoxMbr(),
+    )
+  })
+
+  it('charges a premium per request and credits the treasury once fulfilled', () => {
+    const { beaconContract, beaconApp, secretKey, manager } = deploy(10, 100, 1000)
+    const exampleCallerContract = ctx.contract.create(ExampleCaller)
+    exampleCallerContract.createApplication(beaconApp)
+    const exampleCallerApp = ctx.ledger.getApplicationForContract(exampleCallerContract)
+    const requesterAccount = ctx.any.account()
+
+    beaconContract.setPremium(50_000)
+
+    const options = requestOptions()
+    const { fees, boxMbr, premium } = beaconContract.getCosts(options)
+    expect(BigInt(premium)).toEqual(50_000n)
+
+    // set for test so ApplicationSpy hooks know
+    exampleCallerAppId = exampleCallerApp.id
+
+    ctx.defaultSender = requesterAccount
+    const [requestId, round] = exampleCallerContract.test2(
+      options,
+      ctx.any.txn.payment({
+        sender: requesterAccount,
+        receiver: exampleCallerApp.address,
+        amount: fees + boxMbr + premium,
+      }),
+    )
+    // the premium is kept apart from the fees paid to the caller, not earned yet
+    const request = beaconContract.requests(requestId).value
+    expect(request.costs.fees).toEqual(fees)
+    expect(request.costs.premium).toEqual(premium)
+    expect(BigInt(beaconContract.treasury.value)).toEqual(0n)
+
+    ctx.ledger.patchGlobalData({ round: round })
+    ctx.ledger.patchBlockData(round, {
+      seed: Bytes('abcdefghijklmnopqrstuvwxyzabcdef') as bytes<32>,
+    })
+
+    const mockedVrfVerify = op.vrfVerify as Mock<typeof op.vrfVerify>
+    mockedVrfVerify.mockReturnValue([Bytes(new Uint8Array(64).fill(7)) as unknown as VrfOutput, true])
+
+    const spy = new ApplicationSpy(ExampleCaller)
+    spy.on.fulfillRandomness(() => {
+      exampleCallerContract.totalFulfilled.value += 1
+    })
+    ctx.addApplicationSpy(spy)
+
+    const { proof } = libvrf.prove(secretKey, op.Block.blkSeed(round).toString())
+
+    ctx.defaultSender = manager
+    beaconContract.completeRequest(requestId, Bytes(proof) as unknown as VrfProof)
+
+    // the caller is only reimbursed the fees, the premium is earned
+    expect(ctx.txn.lastGroup.getItxnGroup(1).getPaymentInnerTxn(0).amount).toEqual(fees)
+    expect(BigInt(beaconContract.treasury.value)).toEqual(BigInt(premium))
+
+    // the manager can only withdraw what was earned
+    ctx.txn
+      .createScope([ctx.any.txn.applicationCall({ appId: beaconApp, sender: manager })])
+      .execute(() => beaconContract.withdrawTreasury(premium))
+
+    const withdrawal = ctx.txn.lastGroup.getItxnGroup(0).getPaymentInnerTxn(0)
+    expect(withdrawal.receiver).toEqual(manager)
+    expect(withdrawal.amount).toEqual(premium)
+    expect(BigInt(beaconContract.treasury.value)).toEqual(0n)
+    expect(() => beaconContract.withdrawTreasury(1)).toThrow(ERR_INSUFFICIENT_TREASURY)
+  })
+
+  it('only the manager can set the premium and withdraw the treasury', () => {
+    const { beaconContract } = deploy(10, 100, 1000)
+
+    ctx.defaultSender = ctx.any.account()
+
+    expect(() => beaconContract.setPremium(1)).toThrow('only manager can perform this action')
+    expect(() => beaconContract.withdrawTreasury(0)).toThrow('only manager can perform this action')
+  })
+
+  /**
+   * Adds a requester app to the allowlist or denylist as the manager
+   */
+  const addToList = (beaconContract: RandomnessBeacon, manager: Account, list: uint64, requesterAppId: uint64) => {
+    const beaconApp = ctx.ledger.getApplicationForContract(beaconContract)
+    const mbrPayment = ctx.any.txn.payment({
+      sender: manager,
+      receiver: beaconApp.address,
+      amount: beaconContract.getListBoxMbr(),
+    })
+
+    ctx.txn
+      .createScope([mbrPayment, ctx.any.txn.applicationCall({ appId: beaconApp, sender: manager })])
+      .execute(() =>
+        list === ACCESS_MODE_ALLOWLIST
+          ? beaconContract.addToAllowlist(requesterAppId, mbrPayment)
+          : beaconContract.addToDenylist(requesterAppId, mbrPayment),
+      )
+  }
+
+  it('checks requester apps against the access lists', () => {
+    const { beaconContract, manager } = deploy(10, 100, 1000)
+    const listedApp = ctx.any.application()
+    const otherApp = ctx.any.application()
+    const requesterAddress = new arc4.Address(ctx.any.account())
+
+    // an underpaid request only fails on its costs once the access lists are passed
+    const createRequest = (requesterAppId: uint64) => () =>
+      createRequestFromApp(beaconContract, requesterAppId, requesterAddress, Global.round + 1, requestOptions(), 0)
+
+    addToList(beaconContract, manager, ACCESS_MODE_ALLOWLIST, listedApp.id)
+    addToList(beaconContract, manager, ACCESS_MODE_DENYLIST, listedApp.id)
+    expect(beaconContract.allowlist(listedApp.id).exists).toBe(true)
+    expect(beaconContract.denylist(listedApp.id).exists).toBe(true)
+
+    // open by default, the lists are not checked
+    expect(createRequest(listedApp.id)).toThrow(ERR_COSTS_PAYMENT_MUST_BE_VALID)
+    expect(createRequest(otherApp.id)).toThrow(ERR_COSTS_PAYMENT_MUST_BE_VALID)
+
+    callAs(beaconContract, manager, () => beaconContract.setAccessMode(ACCESS_MODE_ALLOWLIST))
+    expect(createRequest(listedApp.id)).toThrow(ERR_COSTS_PAYMENT_MUST_BE_VALID)
+    expect(createRequest(otherApp.id)).toThrow(ERR_REQUESTER_NOT_ALLOWED)
+
+    callAs(beaconContract, manager, () => beaconContract.setAccessMode(ACCESS_MODE_DENYLIST))
+    expect(createRequest(listedApp.id)).toThrow(ERR_REQUESTER_NOT_ALLOWED)
+    expect(createRequest(otherApp.id)).toThrow(ERR_COSTS_PAYMENT_MUST_BE_VALID)
+
+    // removing refunds the box cost to the manager
+    callAs(beaconContract, manager, () => beaconContract.removeFromDenylist(listedApp.id))
+
+    const refund = ctx.txn.lastGroup.getItxnGroup(0).getPaymentInnerTxn(0)
+    expect(refund.receiver).toEqual(manager)
+    expect(refund.amount).toEqual(beaconContract.getListBoxMbr())
+    expect(createRequest(listedApp.id)).toThrow(ERR_COSTS_PAYMENT_MUST_BE_VALID)
+  })
+
+  it('only the manager can update the access lists', () => {
+    const { beaconContract, manager } = deploy(10, 100, 1000)
+    const requesterApp = ctx.any.application()
+
+    expect(() => callAs(beaconContract, manager, () => beaconContract.setAccessMode(ACCESS_MODE_DENYLIST + 1))).toThrow(
+      ERR_INVALID_ACCESS_MODE,
+    )
+    expect(() =>
+      callAs(beaconContract, ctx.any.account(), () => beaconContract.setAccessMode(ACCESS_MODE_ALLOWLIST)),
+    ).toThrow('only manager can perform this action')
+    expect(() => addToList(beaconContract, ctx.any.account(), ACCESS_MODE_ALLOWLIST, requesterApp.id)).toThrow(
+      'only manager can perform this action',
+    )
+  })
+
+  /**
+   * Stores a pending request of a requester app, its content doesn't matter to the quotas
+   */
+  const storePendingRequest = (
+    beaconContract: RandomnessBeacon,
+    requesterAppId: uint64,
+    requester: Account = ctx.any.account(),
+  ): uint64 => {
+    return storeRequest(
+      beaconContract,
+      buildRequest(beaconContract, { requesterAppId: requesterAppId, requesterAddress: new arc4.Address(requester) }),
+    )
+  }
+
+  it('limits the pending requests of each requester app', () => {
+    const { beaconContract, beaconApp, manager } = deploy(10, 100, 1000)
+    const busyApp = ctx.any.application()
+    const otherApp = ctx.any.application()
+    const requesterAddress = new arc4.Address(ctx.any.account())
+
+    // an underpaid request only fails on its costs once the quota is passed
+    const createRequest = (requesterAppId: uint64) => () =>
+      createRequestFromApp(beaconContract, requesterAppId, requesterAddress, Global.round + 1, requestOptions(), 0)
+
+    const requestId = storePendingRequest(beaconContract, busyApp.id)
+    storePendingRequest(beaconContract, busyApp.id)
+    expect(beaconContract.pendingRequestsByApp(busyApp.id).value).toEqual(2)
+
+    // no quota by default
+    expect(createRequest(busyApp.id)).toThrow(ERR_COSTS_PAYMENT_MUST_BE_VALID)
+
+    callAs(beaconContract, manager, () => beaconContract.setMaxPendingRequestsPerApp(2))
+    expect(createRequest(busyApp.id)).toThrow(ERR_MAX_PENDING_REQUESTS_PER_APP)
+    expect(createRequest(otherApp.id)).toThrow(ERR_COSTS_PAYMENT_MUST_BE_VALID)
+
+    // an override replaces the default quota
+    const mbrPayment = ctx.any.txn.payment({
+      sender: manager,
+      receiver: beaconApp.address,
+      amount: beaconContract.getQuotaOverrideBoxMbr(),
+    })
+    ctx.txn
+      .createScope([mbrPayment, ctx.any.txn.applicationCall({ appId: beaconApp, sender: manager })])
+      .execute(() => beaconContract.setQuotaOverride(busyApp.id, 3, mbrPayment))
+    expect(createRequest(busyApp.id)).toThrow(ERR_COSTS_PAYMENT_MUST_BE_VALID)
+
+    // removing the override refunds its box cost to the manager
+    callAs(beaconContract, manager, () => beaconContract.removeQuotaOverride(busyApp.id))
+
+    const refund = ctx.txn.lastGroup.getItxnGroup(0).getPaymentInnerTxn(0)
+    expect(refund.receiver).toEqual(manager)
+    expect(refund.amount).toEqual(beaconContract.getQuotaOverrideBoxMbr())
+    expect(createRequest(busyApp.id)).toThrow(ERR_MAX_PENDING_REQUESTS_PER_APP)
+
+    // a cancelled request frees a slot
+    ctx.ledger.patchGlobalData({ round: 11 + 1000 + 1 })
+    callAs(beaconContract, ctx.any.account(), () => beaconContract.cancelRequest(requestId))
+    expect(beaconContract.pendingRequestsByApp(busyApp.id).value).toEqual(1)
+    expect(createRequest(busyApp.id)).toThrow(ERR_COSTS_PAYMENT_MUST_BE_VALID)
+  })
+
+  it('limits the pending account requests of each account', () => {
+    const { beaconContract, manager } = deploy(10, 100, 1000)
+    const busyAccount = ctx.any.account()
+    const otherAccount = ctx.any.account()
+
+    // an underpaid request only fails on its costs once the quota is passed
+    const createRequest = (requester: Account) => () =>
+      createAccountRequest(beaconContract, requester, Global.round + 1, requestOptions({ pullMode: true }), 0)
+
+    storePendingRequest(beaconContract, 0, busyAccount)
+    expect(beaconContract.pendingRequestsByAccount(busyAccount).value).toEqual(1)
+
+    // accounts share the requester app ID 0, but each of them gets its own quota
+    callAs(beaconContract, manager, () => beaconContract.setMaxPendingRequestsPerApp(1))
+    expect(createRequest(busyAccount)).toThrow(ERR_MAX_PENDING_REQUESTS_PER_APP)
+    expect(createRequest(otherAccount)).toThrow(ERR_COSTS_PAYMENT_MUST_BE_VALID)
+    expect(beaconContract.pendingRequestsByApp(0).exists).toBe(false)
+  })
+
+  it('only the manager can set the pending requests quotas', () => {
+    const { beaconContract, manager } = deploy(10, 100, 1000)
+    const requesterApp = ctx.any.application()
+
+    expect(() => callAs(beaconContract, manager, () => beaconContract.removeQuotaOverride(requesterApp.id))).toThrow(
+      ERR_NO_QUOTA_OVERRIDE,
+    )
+    expect(() =>
+      callAs(beaconContract, ctx.any.account(), () => beaconContract.setMaxPendingRequestsPerApp(1)),
+    ).toThrow('only manager can perform this action')
+  })
+
+  it('pauses request creation, fulfillment and cancellation separately', () => {
+    const { beaconContract, manager } = deploy(10, 100, 1000)
+    const requesterApp = ctx.any.application()
+    const requestId = storePendingRequest(beaconContract, requesterApp.id)
+    const proof = Bytes(new Uint8Array(80)).toFixed({ length: 80 })
+
+    // an underpaid request only fails on its costs when creation is not paused
+    const createRequest = () =>
+      createRequestFromApp(
+        beaconContract,
+        requesterApp.id,
+        new arc4.Address(ctx.any.account()),
+        Global.round + 1,
+        requestOptions(),
+        0,
+      )
+
+    callAs(beaconContract, manager, () => beaconContract.pause(PAUSE_SCOPE_FULFILLMENT | PAUSE_SCOPE_CANCELLATION))
+    expect(lastEventData(beaconContract)).toEqual([encodeEventData(manager, 6n)])
+    expect(beaconContract.isCreationPaused()).toBe(false)
+    expect(beaconContract.isFulfillmentPaused()).toBe(true)
+    expect(beaconContract.isCancellationPaused()).toBe(true)
+    expect(createRequest).toThrow(ERR_COSTS_PAYMENT_MUST_BE_VALID)
+    expect(() => callAs(beaconContract, manager, () => beaconContract.completeRequest(requestId, proof))).toThrow(
+      'paused',
+    )
+    expect(() => callAs(beaconContract, manager, () => beaconContract.cancelRequest(requestId))).toThrow('paused')
+
+    // unpausing a scope leaves the others paused
+    callAs(beaconContract, manager, () => beaconContract.unpause(PAUSE_SCOPE_CANCELLATION))
+    expect(lastEventData(beaconContract)).toEqual([encodeEventData(manager, 4n)])
+    callAs(beaconContract, manager, () => beaconContract.pause(PAUSE_SCOPE_CREATION))
+    expect(beaconContract.isFulfillmentPaused()).toBe(true)
+    expect(beaconContract.isCancellationPaused()).toBe(false)
+    expect(createRequest).toThrow('paused')
+
+    ctx.ledger.patchGlobalData({ round: 11 + 1000 + 1 })
+    callAs(beaconContract, ctx.any.account(), () => beaconContract.cancelRequest(requestId))
+    expect(beaconContract.requests(requestId).exists).toBe(false)
+  })
+
+  it('pauses a single requester app', () => {
+    const { beaconContract, beaconApp, manager } = deploy(10, 100, 1000)
+    const pausedApp = ctx.any.application()
+    const requesterAddress = new arc4.Address(ctx.any.account())
+    const createRequest = (requesterAppId: uint64) => () =>
+      createRequestFromApp(beaconContract, requesterAppId, requesterAddress, Global.round + 1, requestOptions(), 0)
+
+    const mbrPayment = ctx.any.txn.payment({
+      sender: manager,
+      receiver: beaconApp.address,
+      amount: beaconContract.getPausedRequesterBoxMbr(),
+    })
+    ctx.txn
+      .createScope([mbrPayment, ctx.any.txn.applicationCall({ appId: beaconApp, sender: manager })])
+      .execute(() => beaconContract.pauseRequester(pausedApp.id, mbrPayment))
+    expect(lastEventData(beaconContract)).toEqual([encodeEventData(manager, BigInt(pausedApp.id))])
+    expect(beaconContract.isRequesterPaused(pausedApp.id)).toBe(true)
+    expect(createRequest(pausedApp.id)).toThrow(ERR_REQUESTER_PAUSED)
+    expect(createRequest(ctx.any.application().id)).toThrow(ERR_COSTS_PAYMENT_MUST_BE_VALID)
+
+    // unpausing refunds the box cost to the pauser
+    callAs(beaconContract, manager, () => beaconContract.unpauseRequester(pausedApp.id))
+    expect(lastEventData(beaconContract)).toEqual([encodeEventData(manager, BigInt(pausedApp.id))])
+
+    const refund = ctx.txn.lastGroup.getItxnGroup(0).getPaymentInnerTxn(0)
+    expect(refund.receiver).toEqual(manager)
+    expect(refund.amount).toEqual(beaconContract.getPausedRequesterBoxMbr())
+    expect(createRequest(pausedApp.id)).toThrow(ERR_COSTS_PAYMENT_MUST_BE_VALID)
+    expect(() =>
+      callAs(beaconContract, ctx.any.account(), () => beaconContract.unpauseRequester(pausedApp.id)),
+    ).toThrow('only pauser can call this method')
+  })
+
+  it('tells pending, cancelled and unknown requests apart', () => {
+    const { beaconContract } = deploy(10, 100, 1000)
+    const requesterApp = ctx.any.application()
+    const cancelledId = storePendingRequest(beaconContract, requesterApp.id)
+    const pendingId = storePendingRequest(beaconContract, requesterApp.id)
+
+    ctx.ledger.patchGlobalData({ round: 11 + 1000 + 1 })
+    callAs(beaconContract, ctx.any.account(), () => beaconContract.cancelRequest(cancelledId))
+
+    expect(beaconContract.getRequestStatus(0)).toEqual(REQUEST_STATUS_NONE)
+    expect(beaconContract.getRequestStatus(pendingId + 1)).toEqual(REQUEST_STATUS_NONE)
+    expect(beaconContract.getRequestStatus(pendingId)).toEqual(REQUEST_STATUS_PENDING)
+    expect(beaconContract.getRequestStatus(cancelledId)).toEqual(REQUEST_STATUS_CANCELLED)
+
+    expect(beaconContract.isPending(pendingId)).toBe(true)
+    expect(beaconContract.isPending(cancelledId)).toBe(false)
+
+    const [exists, request] = beaconContract.getRequest(pendingId)
+    expect(exists).toBe(true)
+    expect(request.requesterAppId).toEqual(requesterApp.id)
+    expect(beaconContract.getRequest(cancelledId)[0]).toBe(false)
+  })
+
+  it('deletes the cancelled requests bitmap pages before the app', () => {
+    const { beaconContract, beaconApp, manager } = deploy(10, 100, 1000)
+    const cancelledId = storePendingRequest(beaconContract, ctx.any.application().id)
+
+    ctx.ledger.patchGlobalData({ round: 11 + 1000 + 1 })
+    callAs(beaconContract, ctx.any.account(), () => beaconContract.cancelRequest(cancelledId))
+    expect(BigInt(beaconContract.cancelledPages.value)).toEqual(1n)
+
+    const deleteApplication = () =>
+      ctx.txn
+        .createScope([
+          ctx.any.txn.applicationCall({
+            appId: beaconApp,
+            sender: manager,
+            onCompletion: OnCompleteAction.DeleteApplication,
+          }),
+        ])
+        .execute(() => beaconContract.deleteApplication())
+    expect(deleteApplication).toThrow(ERR_CANCELLED_PAGES)
+
+    // the statuses are only dropped once the beacon stops taking requests
+    const page: uint64 = cancelledId / (CANCELLED_PAGE_SIZE * 8)
+    expect(() => callAs(beaconContract, manager, () => beaconContract.deleteCancelledPages([page]))).toThrow(
+      ERR_CREATION_MUST_BE_PAUSED,
+    )
+    callAs(beaconContract, manager, () => beaconContract.pause(PAUSE_SCOPE_CREATION))
+    expect(() => callAs(beaconContract, ctx.any.account(), () => beaconContract.deleteCancelledPages([page]))).toThrow(
+      'only manager can perform this action',
+    )
+    expect(() => callAs(beaconContract, manager, () => beaconContract.deleteCancelledPages([page + 1]))).toThrow(
+      ERR_CANCELLED_PAGE_NOT_FOUND,
+    )
+
+    callAs(beaconContract, manager, () => beaconContract.deleteCancelledPages([page]))
+    expect(beaconContract.cancelledRequests(page).exists).toBe(false)
+    expect(BigInt(beaconContract.cancelledPages.value)).toEqual(0n)
+    expect(lastEventData(beaconContract)).toEqual([encodeEventData(BigInt(page))])
+    deleteApplication()
+  })
+
+  it('lets the requester cancel before the target round with a full refund', () => {
+    const { beaconContract } = deploy(10, 100, 1000)
+    const requesterApp = ctx.any.application()
+    const requesterAccount = ctx.any.account()
+    const options = requestOptions()
+    const { fees, boxMbr } = beaconContract.getCosts(options)
+    const createGameRequest = () =>
+      createRequestFromApp(
+        beaconContract,
+        requesterApp.id,
+        new arc4.Address(requesterAccount),
+        20,
+        options,
+        fees + boxMbr,
+      )
+    ctx.ledger.patchGlobalData({ round: 10 })
+    const appCancelledId = createGameRequest()
+    const accountCancelledId = createGameRequest()
+    const lateId = createGameRequest()
+
+    ctx.ledger.patchGlobalData({ round: 15, callerApplicationId: 0 })
+    expect(() => callAs(beaconContract, ctx.any.account(), () => beaconContract.cancelRequest(appCancelledId))).toThrow(
+      ERR_MUST_BE_REQUESTER,
+    )
+
+    // the requester app, no cancellation fees are taken (the first cancelled request keeps the page box cost of its
+    // boxMbr, paying for its page of the bitmap)
+    ctx.ledger.patchGlobalData({ callerApplicationId: requesterApp.id })
+    callAs(beaconContract, requesterApp.address, () => beaconContract.cancelRequest(appCancelledId))
+
+    const appRefund = ctx.txn.lastGroup.getItxnGroup(0).getPaymentInnerTxn(0)
+    expect(appRefund.receiver).toEqual(requesterAccount)
+    expect(appRefund.amount).toEqual(fees + boxMbr - beaconContract.getCancelledPageBoxMbr())
+    expect(BigInt(beaconContract.cancelledPages.value)).toEqual(1n)
+
+    // the requester address, the page exists so everything is refunded
+    callAs(beaconContract, requesterAccount, () => beaconContract.cancelRequest(accountCancelledId))
+
+    const accountRefund = ctx.txn.lastGroup.getItxnGroup(0).getPaymentInnerTxn(0)
+    expect(accountRefund.receiver).toEqual(requesterAccount)
+    expect(accountRefund.amount).toEqual(fees + boxMbr)
+    expect(beaconContract.getRequestStatus(accountCancelledId)).toEqual(REQUEST_STATUS_CANCELLED)
+
+    // from the target round, the request can only be cancelled once stale
+    ctx.ledger.patchGlobalData({ round: 20, callerApplicationId: 0 })
+    expect(() => callAs(beaconContract, requesterAccount, () => beaconContract.cancelRequest(lateId))).toThrow(
+      ERR_REQUEST_MUST_BE_STALE,
+    )
+
+    // a third party cancelling it once stale is paid the cancellation fees out of the refund
+    ctx.ledger.patchGlobalData({ round: 20 + 1000 + 1 })
+    const caller = ctx.any.account()
+    callAs(beaconContract, caller, () => beaconContract.cancelRequest(lateId))
+
+    const cancellationFees: uint64 = Global.minTxnFee * 3
+    const staleGroup = ctx.txn.lastGroup
+    expect(staleGroup.getItxnGroup(0).getPaymentInnerTxn(0).receiver).toEqual(caller)
+    expect(staleGroup.getItxnGroup(0).getPaymentInnerTxn(0).amount).toEqual(cancellationFees)
+    expect(staleGroup.getItxnGroup(1).getPaymentInnerTxn(0).receiver).toEqual(requesterAccount)
+    expect(staleGroup.getItxnGroup(1).getPaymentInnerTxn(0).amount).toEqual(fees + boxMbr - cancellationFees)
+    expect(beaconContract.totalPendingRequests.value).toEqual(0)
+  })
+
+  it('refunds an overpayment to the requester instead of the caller', () => {
+    const { beaconContract, secretKey, manager } = deploy(10, 100, 1000)
+    const requesterAccount = ctx.any.account()
+    const overpayment: uint64 = 5_000
+
+    const options = requestOptions({ pullMode: true })
+    const { fees, boxMbr, resultBoxMbr } = beaconContract.getCosts(options)
+    const createOverpaidRequest = () =>
+      createAccountRequest(beaconContract, requesterAccount, 11, options, fees + boxMbr + resultBoxMbr + overpayment)
+
+    ctx.ledger.patchGlobalData({ round: 10 })
+    const completedId = createOverpaidRequest()
+    const cancelledId = createOverpaidRequest()
+
+    // the amount paid above the costs is recorded on the request
+    expect(BigInt(beaconContract.requests(completedId).value.overpayment)).toEqual(BigInt(overpayment))
+    expect(BigInt(beaconContract.requests(cancelledId).value.overpayment)).toEqual(BigInt(overpayment))
+
+    ctx.ledger.patchGlobalData({ round: 11 })
+    ctx.ledger.patchBlockData(11, {
+      seed: Bytes('abcdefghijklmnopqrstuvwxyzabcdef') as bytes<32>,
+    })
+
+    const mockedVrfVerify = op.vrfVerify as Mock<typeof op.vrfVerify>
+    mockedVrfVerify.mockReturnValue([Bytes(new Uint8Array(64).fill(5)) as unknown as VrfOutput, true])
+    const { proof } = libvrf.prove(secretKey, op.Block.blkSeed(11).toString())
+
+    callAs(beaconContract, manager, () =>
+      beaconContract.completeRequest(completedId, Bytes(proof) as unknown as VrfProof),
+    )
+
+    // the caller is only paid the fee schedule, the overpayment goes back with the box refund
+    const fulfillGroup = ctx.txn.lastGroup
+    const feesPayment = fulfillGroup.getItxnGroup(0).getPaymentInnerTxn(0)
+    expect(feesPayment.receiver).toEqual(manager)
+    expect(feesPayment.amount).toEqual(fees)
+    const completionRefund = fulfillGroup.getItxnGroup(1).getPaymentInnerTxn(0)
+    expect(completionRefund.receiver).toEqual(requesterAccount)
+    expect(completionRefund.amount).toEqual(boxMbr + overpayment)
+    expect(completionRefund.note).toEqual(Bytes(NOTE_OVERPAYMENT_REFUND))
+
+    // a stale cancellation refunds the overpayment too, minus the cancellation fees and the bitmap page
+    ctx.ledger.patchGlobalData({ round: 11 + 1000 + 1 })
+    const caller = ctx.any.account()
+    callAs(beaconContract, caller, () => beaconContract.cancelRequest(cancelledId))
+
+    const cancellationRefund = ctx.txn.lastGroup.getItxnGroup(1).getPaymentInnerTxn(0)
+    expect(cancellationRefund.receiver).toEqual(requesterAccount)
+    expect(cancellationRefund.amount).toEqual(
+      fees + boxMbr + resultBoxMbr + overpayment - Global.minTxnFee * 3 - beaconContract.getCancelledPageBoxMbr(),
+    )
+    expect(cancellationRefund.note).toEqual(Bytes(NOTE_CANCELLATION_REFUND))
+  })
+
+  it('compensates stale requests from the operator bond', () => {
+    const { beaconContract, beaconApp, manager } = deploy(10, 2000, 1000)
+    const requesterApp = ctx.any.application()
+    const requesterAccount = ctx.any.account()
+    const stalePenalty: uint64 = 100_000
+
+    callAs(beaconContract, manager, () => beaconContract.setStalePenalty(stalePenalty))
+    callAs(beaconContract, manager, () => beaconContract.setBondWithdrawalDelay(50))
+    expect(() => callAs(beaconContract, manager, () => beaconContract.setBondWithdrawalDelay(10))).toThrow(
+      ERR_BOND_WITHDRAWAL_DELAY_CANNOT_BE_LOWERED,
+    )
+
+    // without a bond covering the penalty, no requests are accepted
+    const options = requestOptions()
+    expect(() =>
+      createRequestFromApp(
+        beaconContract,
+        requesterApp.id,
+        new arc4.Address(requesterAccount),
+        Global.round + 1,
+        options,
+        0,
+      ),
+    ).toThrow(ERR_BOND_TOO_LOW)
+
+    const bondPayment = ctx.any.txn.payment({ sender: manager, receiver: beaconApp.address, amount: 250_000 })
+    ctx.txn
+      .createScope([bondPayment, ctx.any.txn.applicationCall({ appId: beaconApp, sender: manager })])
+      .execute(() => beaconContract.depositBond(bondPayment))
+    expect(BigInt(beaconContract.bond.value)).toEqual(250_000n)
+
+    // the bond now passes, the unpaid request fails on its payment instead
+    expect(() =>
+      createRequestFromApp(
+        beaconContract,
+        requesterApp.id,
+        new arc4.Address(requesterAccount),
+        Global.round + 1,
+        options,
+        0,
+      ),
+    ).toThrow(ERR_COSTS_PAYMENT_MUST_BE_VALID)
+
+    const { fees, boxMbr } = beaconContract.getCosts(options)
+    const createBondedRequest = (round: uint64) =>
+      createRequestFromApp(
+        beaconContract,
+        requesterApp.id,
+        new arc4.Address(requesterAccount),
+        round,
+        options,
+        fees + boxMbr,
+      )
+
+    // each request locks the current penalty of the bond
+    ctx.ledger.patchGlobalData({ round: 10 })
+    const staleId = createBondedRequest(11)
+    expect(BigInt(beaconContract.requests(staleId).value.stalePenalty)).toEqual(BigInt(stalePenalty))
+    expect(BigInt(beaconContract.lockedBond.value)).toEqual(100_000n)
+    const laterId = createBondedRequest(2000)
+    expect(BigInt(beaconContract.lockedBond.value)).toEqual(200_000n)
+    expect(BigInt(beaconContract.bond.value)).toEqual(250_000n)
+    ctx.ledger.patchGlobalData({ callerApplicationId: 0 })
+
+    // the penalties of pending requests cannot be withdrawn
+    expect(() => callAs(beaconContract, manager, () => beaconContract.requestBondWithdrawal(50_001))).toThrow(
+      ERR_BOND_TOO_LOW,
+    )
+
+    // the requester cancelling once stale is paid the penalty with its refund (minus its bitmap page)
+    ctx.ledger.patchGlobalData({ round: 11 + 1000 + 1 })
+    callAs(beaconContract, requesterAccount, () => beaconContract.cancelRequest(staleId))
+
+    // the penalty paid, then the cancellation
+    expect(lastEventData(beaconContract)).toEqual([
+      encodeEventData(BigInt(staleId), requesterAccount, BigInt(stalePenalty)),
+      encodeEventData(BigInt(staleId), BigInt(requesterApp.id), requesterAccount),
+    ])
+    const refund = ctx.txn.lastGroup.getItxnGroup(0).getPaymentInnerTxn(0)
+    expect(refund.receiver).toEqual(requesterAccount)
+    expect(refund.amount).toEqual(fees + boxMbr + stalePenalty - beaconContract.getCancelledPageBoxMbr())
+    expect(refund.note).toEqual(Bytes(NOTE_CANCELLATION_REFUND))
+    expect(BigInt(beaconContract.bond.value)).toEqual(150_000n)
+    expect(BigInt(beaconContract.lockedBond.value)).toEqual(100_000n)
+
+    // a withdrawal waits for the delay and never takes the penalties of pending requests
+    callAs(beaconContract, manager, () => beaconContract.requestBondWithdrawal(50_000))
+    expect(() => callAs(beaconContract, manager, () => beaconContract.withdrawBond())).toThrow(
+      ERR_BOND_WITHDRAWAL_NOT_READY,
+    )
+
+    ctx.ledger.patchGlobalData({ round: 11 + 1000 + 1 + 50 })
+    callAs(beaconContract, manager, () => beaconContract.withdrawBond())
+
+    const withdrawal = ctx.txn.lastGroup.getItxnGroup(0).getPaymentInnerTxn(0)
+    expect(withdrawal.receiver).toEqual(manager)
+    expect(withdrawal.amount).toEqual(50_000)
+    expect(BigInt(beaconContract.bond.value)).toEqual(100_000n)
+    expect(beaconContract.pendingBondWithdrawal.hasValue).toEqual(false)
+
+    // a request cancelled before its target round releases its penalty without paying it
+    callAs(beaconContract, requesterAccount, () => beaconContract.cancelRequest(laterId))
+    expect(BigInt(beaconContract.bond.value)).toEqual(100_000n)
+    expect(BigInt(beaconContract.lockedBond.value)).toEqual(0n)
+
+    expect(() => callAs(beaconContract, manager, () => beaconContract.cancelBondWithdrawal())).toThrow(
+      ERR_NO_PENDING_BOND_WITHDRAWAL,
+    )
+    expect(() => callAs(beaconContract, ctx.any.account(), () => beaconContract.setStalePenalty(0))).toThrow(
+      'only manager can perform this action',
+    )
+  })
+
+  it('combines k of n operator proofs into the round output', () => {
+    const { beaconContract, beaconApp, secretKey, manager } = deploy(10, 100, 1000)
+    const [first, second, third] = [ctx.any.account(), ctx.any.account(), ctx.any.account()]
+
+    for (const operator of [first, second, third]) {
+      const mbrPayment = ctx.any.txn.payment({
+        sender: manager,
+        receiver: beaconApp.address,
+        amount: beaconContract.getOperatorBoxMbr(),
+      })
+      ctx.txn
+        .createScope([mbrPayment, ctx.any.txn.applicationCall({ appId: beaconApp, sender: manager })])
+        .execute(() =>
+          beaconContract.addOperator(
+            new arc4.Address(operator),
+            // decoded bytes lose their fixed length, restore it so the operator box encodes as expected
+            Bytes(libvrf.keypair().publicKey).toFixed({ length: 32 }),
+            mbrPayment,
+          ),
+        )
+    }
+    expect(beaconContract.operators(third).value.index).toEqual(2)
+    expect(() => callAs(beaconContract, manager, () => beaconContract.setOperatorThreshold(4))).toThrow(
+      ERR_INVALID_OPERATOR_THRESHOLD,
+    )
+    callAs(beaconContract, manager, () => beaconContract.setOperatorThreshold(2))
+
+    // in k-of-n mode, requests also pay for the pending requests counter of their round
+    const requesterAccount = ctx.any.account()
+    const options = requestOptions({ pullMode: true })
+    const { fees, boxMbr, resultBoxMbr } = beaconContract.getCosts(options)
+    ctx.ledger.patchGlobalData({ round: 10 })
+    const requestId = createAccountRequest(beaconContract, requesterAccount, 11, options, fees + boxMbr + resultBoxMbr)
+    const aggregatedRequestId = createAccountRequest(
+      beaconContract,
+      requesterAccount,
+      11,
+      options,
+      fees + boxMbr + resultBoxMbr,
+    )
+    expect(BigInt(beaconContract.roundRequests(11).value)).toEqual(2n)
+
+    // the operators of a scheduled round cannot change
+    expect(() => callAs(beaconContract, manager, () => beaconContract.setOperatorThreshold(1))).toThrow(
+      ERR_OPERATORS_LOCKED,
+    )
+    expect(() => callAs(beaconContract, manager, () => beaconContract.removeOperator(new arc4.Address(first)))).toThrow(
+      ERR_OPERATORS_LOCKED,
+    )
+
+    ctx.ledger.patchGlobalData({ round: 12 })
+    ctx.ledger.patchBlockData(11, {
+      seed: Bytes('abcdefghijklmnopqrstuvwxyzabcdef') as bytes<32>,
+    })
+    const { proof } = libvrf.prove(secretKey, op.Block.blkSeed(11).toString())
+
+    // a single proof can no longer complete requests
+    expect(() =>
+      callAs(beaconContract, manager, () =>
+        beaconContract.completeRequest(requestId, Bytes(proof) as unknown as VrfProof),
+      ),
+    ).toThrow(ERR_MULTI_OPERATOR_MODE)
+
+    const submitProof = (operator: Account, requestIds: uint64[], amount: uint64) => {
+      const mbrPayment = ctx.any.txn.payment({ sender: operator, receiver: beaconApp.address, amount: amount })
+
+      ctx.txn
+        .createScope([mbrPayment, ctx.any.txn.applicationCall({ appId: beaconApp, sender: operator })])
+        .execute(() => beaconContract.submitProof(11, Bytes(proof) as unknown as VrfProof, requestIds, mbrPayment))
+    }
+
+    // any k of the operators prove with their own keys, the first k outputs are combined
+    const mockedVrfVerify = op.vrfVerify as Mock<typeof op.vrfVerify>
+    mockedVrfVerify.mockReturnValue([Bytes(new Uint8Array(64).fill(1)).toFixed({ length: 64 }), true])
+    expect(() => submitProof(ctx.any.account(), [], beaconContract.getSubmissionsBoxMbr())).toThrow(ERR_ONLY_OPERATOR)
+    submitProof(second, [], beaconContract.getSubmissionsBoxMbr())
+    expect(BigInt(beaconContract.submissions(11).value.threshold)).toEqual(2n)
+    expect(() => submitProof(second, [], 0)).toThrow(ERR_ALREADY_SUBMITTED)
+    // the box is paid for by the first proof only
+    expect(() => submitProof(third, [requestId], 1)).toThrow(ERR_SUBMISSION_PAYMENT_MUST_BE_VALID)
+
+    mockedVrfVerify.mockReturnValue([Bytes(new Uint8Array(64).fill(2)).toFixed({ length: 64 }), true])
+    submitProof(third, [requestId], 0)
+
+    // the proof reaching the threshold fulfills the requests and is paid their fees
+    const fulfillGroup = ctx.txn.lastGroup
+    expect(fulfillGroup.getItxnGroup(0).getPaymentInnerTxn(0).receiver).toEqual(third)
+    expect(fulfillGroup.getItxnGroup(0).getPaymentInnerTxn(0).amount).toEqual(fees)
+    expect(beaconContract.getRequestStatus(requestId)).toEqual(REQUEST_STATUS_FULFILLED)
+    expect(BigInt(beaconContract.roundRequests(11).value)).toEqual(1n)
+
+    // the withheld proof of the first operator is not needed, and can't replace another one
+    expect(() => submitProof(first, [], 0)).toThrow(ERR_ROUND_ALREADY_AGGREGATED)
+
+    const roundOutput = new Uint8Array(64).fill(1 ^ 2)
+    expect(toExternalValue(beaconContract.submissions(11).value.output)).toEqual(roundOutput)
+    const expectedOutput = deriveRequestOutput(
+      roundOutput,
+      BigInt(requestId),
+      0n,
+      toExternalValue(requesterAccount.bytes),
+      new Uint8Array(32),
+    )
+    expect(toExternalValue(beaconContract.getResult(requestId))).toEqual(toExternalValue(expectedOutput))
+
+    // the submissions are kept until no proof of the round can be verified, stale requests are not enough as the
+    // round output could be rebuilt from other proofs until then
+    expect(() => callAs(beaconContract, third, () => beaconContract.pruneSubmissions(11))).toThrow(
+      ERR_SUBMISSIONS_NOT_EXPIRED,
+    )
+    ctx.ledger.patchGlobalData({ round: 11 + 1000 + 1 })
+    expect(() => callAs(beaconContract, third, () => beaconContract.pruneSubmissions(11))).toThrow(
+      ERR_SUBMISSIONS_NOT_EXPIRED,
+    )
+    // and the output of an aggregated round until its requests are completed or cancelled
+    ctx.ledger.patchGlobalData({ round: 11 + BLOCK_SEED_LOOKBACK + 1 })
+    expect(() => callAs(beaconContract, third, () => beaconContract.pruneSubmissions(11))).toThrow(
+      ERR_ROUND_HAS_PENDING_REQUESTS,
+    )
+
+    // no proof is verified to complete the remaining requests, they get the verification fees back
+    callAs(beaconContract, first, () => beaconContract.completeAggregatedRequests(11, [aggregatedRequestId]))
+    const aggregatedGroup = ctx.txn.lastGroup
+    const verificationFees = Global.minTxnFee * VRF_VERIFY_TXNS
+    expect(aggregatedGroup.getItxnGroup(0).getPaymentInnerTxn(0).receiver).toEqual(first)
+    expect(aggregatedGroup.getItxnGroup(0).getPaymentInnerTxn(0).amount).toEqual(fees - verificationFees)
+    expect(aggregatedGroup.getItxnGroup(1).getPaymentInnerTxn(0).amount).toEqual(boxMbr + verificationFees)
+    expect(beaconContract.getRequestStatus(aggregatedRequestId)).toEqual(REQUEST_STATUS_FULFILLED)
+    expect(beaconContract.roundRequests(11).exists).toEqual(false)
+
+    // the operator that paid for the submissions box gets its cost back
+    callAs(beaconContract, third, () => beaconContract.pruneSubmissions(11))
+
+    const refund = ctx.txn.lastGroup.getItxnGroup(0).getPaymentInnerTxn(0)
+    expect(refund.receiver).toEqual(second)
+    expect(refund.amount).toEqual(beaconContract.getSubmissionsBoxMbr())
+    expect(beaconContract.submissions(11).exists).toEqual(false)
+
+    // with no pending requests left, the operators can change again
+    callAs(beaconContract, manager, () => beaconContract.setOperatorThreshold(3))
+    expect(BigInt(beaconContract.operatorThreshold.value)).toEqual(3n)
+  })
+
+  it('delivers a recurring request every interval from the same box', () => {
+    const { beaconContract, beaconApp, secretKey, manager } = deploy(10, 100, 1000)
+    const exampleCallerContract = ctx.contract.create(ExampleCaller)
+    exampleCallerContract.createApplication(beaconApp)
+    const exampleCallerApp = ctx.ledger.getApplicationForContract(exampleCallerContract)
+    const requesterAccount = ctx.any.account()
+
+    const options = requestOptions()
+    const { fees, boxMbr } = beaconContract.getCosts(options)
+    // the box is only paid for once
+    expect(beaconContract.getRecurringCosts(options, 3)).toEqual(3 * fees + boxMbr)
+
+    const createRecurringRequest = (
+      requestOptions: RandomnessRequestOptions,
+      interval: uint64,
+      deliveries: uint64,
+      amount: uint64 = 0,
+    ) => {
+      ctx.ledger.patchGlobalData({ callerApplicationId: exampleCallerApp.id })
+      const costsPayment = ctx.any.txn.payment({
+        sender: exampleCallerApp.address,
+        receiver: beaconApp.address,
+        amount: amount,
+      })
+
+      return ctx.txn
+        .createScope([
+          costsPayment,
+          ctx.any.txn.applicationCall({ appId: beaconApp, sender: exampleCallerApp.address }),
+        ])
+        .execute(() =>
+          beaconContract.createRecurringRequest(
+            new arc4.Address(requesterAccount),
+            Global.round + 1,
+            requestOptions,
+            interval,
+            deliveries,
+            costsPayment,
+          ),
+        )
+    }
+    expect(() => createRecurringRequest(options, 0, 3)).toThrow(ERR_INVALID_RECURRENCE)
+    expect(() => createRecurringRequest(options, 100, 1)).toThrow(ERR_INVALID_RECURRENCE)
+    expect(() => createRecurringRequest(requestOptions({ pullMode: true }), 100, 3)).toThrow(ERR_RECURRING_PULL_MODE)
+    expect(() => createRecurringRequest(options, 100, 3)).toThrow(ERR_COSTS_PAYMENT_MUST_BE_VALID)
+
+    ctx.ledger.patchGlobalData({ round: 10 })
+    const requestId = createRecurringRequest(options, 100, 3, beaconContract.getRecurringCosts(options, 3))
+
+    // a single box for every delivery, called back through the default callback
+    const request = beaconContract.requests(requestId).value
+    expect(BigInt(request.round)).toEqual(11n)
+    expect(BigInt(request.interval)).toEqual(100n)
+    expect(BigInt(request.remainingDeliveries)).toEqual(3n)
+    expect(BigInt(request.overpayment)).toEqual(0n)
+    expect(request.callback.appId).toEqual(exampleCallerApp.id)
+    expect(toExternalValue(request.callback.selector.bytes)).toEqual(new Uint8Array(4))
+
+    ctx.ledger.patchGlobalData({ round: 11 })
+    ctx.ledger.patchBlockData(11, {
+      seed: Bytes('abcdefghijklmnopqrstuvwxyzabcdef') as bytes<32>,
+    })
+
+    const mockedVrfVerify = op.vrfVerify as Mock<typeof op.vrfVerify>
+    mockedVrfVerify.mockReturnValue([Bytes(new Uint8Array(64).fill(7)) as unknown as VrfOutput, true])
+
+    const spy = new ApplicationSpy(ExampleCaller)
+    spy.on.fulfillRandomness(() => {
+      exampleCallerContract.totalFulfilled.value += 1
+    })
+    ctx.addApplicationSpy(spy)
+
+    const { proof } = libvrf.prove(secretKey, op.Block.blkSeed(11).toString())
+    callAs(beaconContract, manager, () =>
+      beaconContract.completeRequest(requestId, Bytes(proof) as unknown as VrfProof),
+    )
+
+    // called back and the caller reimbursed, the box is kept for the next delivery
+    const fulfillGroup = ctx.txn.lastGroup
+    expect(fulfillGroup.getItxnGroup(1).getPaymentInnerTxn(0).amount).toEqual(fees)
+    expect(fulfillGroup.itxnGroups.length).toEqual(2)
+    expect(exampleCallerContract.totalFulfilled.value).toEqual(1)
+    expect(BigInt(beaconContract.requests(requestId).value.round)).toEqual(111n)
+    expect(BigInt(beaconContract.requests(requestId).value.remainingDeliveries)).toEqual(2n)
+    expect(beaconContract.getRequestStatus(requestId)).toEqual(REQUEST_STATUS_PENDING)
+
+    // a late delivery schedules the next one after the current round instead of in the past
+    ctx.ledger.patchGlobalData({ round: 300 })
+    ctx.ledger.patchBlockData(111, {
+      seed: Bytes('bcdefghijklmnopqrstuvwxyzabcdefg') as bytes<32>,
+    })
+    const { proof: lateProof } = libvrf.prove(secretKey, op.Block.blkSeed(111).toString())
+    callAs(beaconContract, manager, () =>
+      beaconContract.completeRequest(requestId, Bytes(lateProof) as unknown as VrfProof),
+    )
+    expect(exampleCallerContract.totalFulfilled.value).toEqual(2)
+    expect(BigInt(beaconContract.requests(requestId).value.round)).toEqual(301n)
+    expect(BigInt(beaconContract.requests(requestId).value.remainingDeliveries)).toEqual(1n)
+
+    // the requester can stop it at any time, even once the next delivery is due but not stale yet
+    ctx.ledger.patchGlobalData({ round: 305, callerApplicationId: 0 })
+    expect(() => callAs(beaconContract, ctx.any.account(), () => beaconContract.cancelRequest(requestId))).toThrow(
+      ERR_MUST_BE_REQUESTER,
+    )
+    callAs(beaconContract, requesterAccount, () => beaconContract.cancelRequest(requestId))
+
+    // the remaining deliveries are refunded (minus its bitmap page)
+    const refund = ctx.txn.lastGroup.getItxnGroup(0).getPaymentInnerTxn(0)
+    expect(refund.receiver).toEqual(requesterAccount)
+    expect(refund.amount).toEqual(fees + boxMbr - beaconContract.getCancelledPageBoxMbr())
+    expect(beaconContract.totalPendingRequests.value).toEqual(0)
+  })
+
+  /**
+   * Approves a requester app on behalf of a callback app, the sender pays for the approval box
+   */
+  const approveCallbackRequester = (
+    beaconContract: RandomnessBeacon,
+    sender: Account,
+    callbackAppId: uint64,
+    requesterAppId: uint64,
+  ): void => {
+    const beaconApp = ctx.ledger.getApplicationForContract(beaconContract)
+    const mbrPayment = ctx.any.txn.payment({
+      sender: sender,
+      receiver: beaconApp.address,
+      amount: beaconContract.getCallbackApprovalBoxMbr(),
+    })
+
+    ctx.txn
+      .createScope([mbrPayment, ctx.any.txn.applicationCall({ appId: beaconApp, sender: sender })])
+      .execute(() => beaconContract.approveCallbackRequester(callbackAppId, requesterAppId, mbrPayment))
+  }
+
+  it('only delivers to callback apps that approved the requester app', () => {
+    const { beaconContract, beaconApp } = deploy(10, 100, 1000)
+    const frontApp = ctx.any.application()
+    const gameOwner = ctx.any.account()
+    const gameApp = ctx.any.application({ creator: gameOwner })
+    const options = requestOptions()
+    const { fees, boxMbr } = beaconContract.getCosts(options)
+
+    const createRequestWithCallback = (callbackAppId: uint64) => {
+      ctx.ledger.patchGlobalData({ callerApplicationId: frontApp.id })
+      const costsPayment = ctx.any.txn.payment({
+        sender: frontApp.address,
+        receiver: beaconApp.address,
+        amount: fees + boxMbr,
+      })
+
+      return ctx.txn
+        .createScope([costsPayment, ctx.any.txn.applicationCall({ appId: beaconApp, sender: frontApp.address })])
+        .execute(() =>
+          beaconContract.createRequestWithCallback(
+            new arc4.Address(ctx.any.account()),
+            Global.round + 1,
+            options,
+            callbackAppId,
+            defaultCallback(0).selector,
+            costsPayment,
+          ),
+        )
+    }
+
+    // a third party app cannot be made to receive outputs it never asked for
+    expect(() => createRequestWithCallback(gameApp.id)).toThrow(ERR_CALLBACK_NOT_APPROVED)
+    expect(beaconContract.isCallbackApproved(gameApp.id, frontApp.id)).toBe(false)
+    // the requester app can always be its own callback app
+    createRequestWithCallback(frontApp.id)
+
+    // only the callback app or its creator can approve a requester app
+    ctx.ledger.patchGlobalData({ callerApplicationId: 0 })
+    expect(() => approveCallbackRequester(beaconContract, ctx.any.account(), gameApp.id, frontApp.id)).toThrow(
+      ERR_CALLBACK_MUST_CONSENT,
+    )
+    approveCallbackRequester(beaconContract, gameOwner, gameApp.id, frontApp.id)
+    expect(beaconContract.isCallbackApproved(gameApp.id, frontApp.id)).toBe(true)
+    createRequestWithCallback(gameApp.id)
+
+    // revoking refunds the approval box cost and blocks new requests
+    ctx.ledger.patchGlobalData({ callerApplicationId: 0 })
+    callAs(beaconContract, gameOwner, () => beaconContract.revokeCallbackRequester(gameApp.id, frontApp.id))
+    const refund = ctx.txn.lastGroup.getItxnGroup(0).getPaymentInnerTxn(0)
+    expect(refund.receiver).toEqual(gameOwner)
+    expect(refund.amount).toEqual(beaconContract.getCallbackApprovalBoxMbr())
+    expect(() => createRequestWithCallback(gameApp.id)).toThrow(ERR_CALLBACK_NOT_APPROVED)
+  })
+
+  it('delivers to a custom callback app and method', () => {
+    const { beaconContract, beaconApp, secretKey, manager } = deploy(10, 100, 1000)
+    const frontApp = ctx.any.application()
+    const gameOwner = ctx.any.account()
+    const gameApp = ctx.any.application({ creator: gameOwner })
+    approveCallbackRequester(beaconContract, gameOwner, gameApp.id, frontApp.id)
+    const requesterAccount = ctx.any.account()
+    const selector = new arc4.StaticBytes<4>(Bytes.fromHex('deadbeef'))
+
+    const createRequestWithCallback = (
+      options: RandomnessRequestOptions,
+      callbackAppId: uint64,
+      amount: uint64 = 0,
+    ) => {
+      ctx.ledger.patchGlobalData({ callerApplicationId: frontApp.id })
+      const costsPayment = ctx.any.txn.payment({
+        sender: frontApp.address,
+        receiver: beaconApp.address,
+        amount: amount,
+      })
+
+      return ctx.txn
+        .createScope([costsPayment, ctx.any.txn.applicationCall({ appId: beaconApp, sender: frontApp.address })])
+        .execute(() =>
+          beaconContract.createRequestWithCallback(
+            new arc4.Address(requesterAccount),
+            Global.round + 1,
+            options,
+            callbackAppId,
+            selector,
+            costsPayment,
+          ),
+        )
+    }
+    expect(() => createRequestWithCallback(requestOptions(), 0)).toThrow(ERR_INVALID_CALLBACK_APP)
+    expect(() => createRequestWithCallback(requestOptions({ numWords: 2 }), gameApp.id)).toThrow(
+      ERR_CUSTOM_CALLBACK_OPTIONS,
+    )
+    expect(() => createRequestWithCallback(requestOptions({ pullMode: true }), gameApp.id)).toThrow(
+      ERR_CUSTOM_CALLBACK_OPTIONS,
+    )
+    expect(() => createRequestWithCallback(requestOptions(), gameApp.id)).toThrow(ERR_COSTS_PAYMENT_MUST_BE_VALID)
+
+    const options = requestOptions()
+    const { fees, boxMbr } = beaconContract.getCosts(options)
+    ctx.ledger.patchGlobalData({ round: 10 })
+    const requestId = createRequestWithCallback(options, gameApp.id, fees + boxMbr)
+
+    // the front app stays the requester, only the callback changes
+    const request = beaconContract.requests(requestId).value
+    expect(request.requesterAppId).toEqual(frontApp.id)
+    expect(request.callback.appId).toEqual(gameApp.id)
+    expect(toExternalValue(request.callback.selector.bytes)).toEqual(toExternalValue(selector.bytes))
+
+    ctx.ledger.patchGlobalData({ round: 11 })
+    ctx.ledger.patchBlockData(11, {
+      seed: Bytes('abcdefghijklmnopqrstuvwxyzabcdef') as bytes<32>,
+    })
+
+    const vrfOutput = new Uint8Array(64).fill(5)
+    const mockedVrfVerify = op.vrfVerify as Mock<typeof op.vrfVerify>
+    mockedVrfVerify.mockReturnValue([Bytes(vrfOutput) as unknown as VrfOutput, true])
+
+    const { proof } = libvrf.prove(secretKey, op.Block.blkSeed(11).toString())
+    callAs(beaconContract, manager, () =>
+      beaconContract.completeRequest(requestId, Bytes(proof) as unknown as VrfProof),
+    )
+
+    // the game app is called through the custom method, with the fulfillRandomness arguments
+    const callback = ctx.txn.lastGroup.getItxnGroup(0).getApplicationCallInnerTxn(0)
+    const expectedOutput = deriveRequestOutput(
+      vrfOutput,
+      BigInt(requestId),
+      BigInt(frontApp.id),
+      toExternalValue(requesterAccount.bytes),
+      new Uint8Array(32),
+    )
+    expect(callback.appId).toEqual(gameApp)
+    expect([0, 1, 2, 3].map((i) => Buffer.from(toExternalValue(callback.appArgs(i))))).toEqual([
+      Buffer.from(toExternalValue(selector.bytes)),
+      Buffer.from(toExternalValue(op.itob(requestId))),
+      Buffer.from(toExternalValue(requesterAccount.bytes)),
+      Buffer.from(toExternalValue(expectedOutput)),
+    ])
+
+    // refunds still go to the requester
+    const refund = ctx.txn.lastGroup.getItxnGroup(2).getPaymentInnerTxn(0)
+    expect(refund.receiver).toEqual(requesterAccount)
+    expect(beaconContract.getRequestStatus(requestId)).toEqual(REQUEST_STATUS_FULFILLED)
   })
 })
@@ -1,8 +1,12 @@
 import {
+  Account,
+  Application,
   arc4,
   assert,
   assertMatch,
   BoxMap,
+  bytes,
+  Bytes,
   clone,
   emit,
   ensureBudget,
@@ -18,45 +22,231 @@ import {
   VrfVerify,
 } from '@algorandfoundation/algorand-typescript'
 import { classes } from 'polytype'
+import { Fulfillable } from './contracts/fulfillable.algo'
 import { Managable } from './contracts/managable.algo'
 import { Pausable } from './contracts/pausable.algo'
 import {
+  ACCESS_MODE_ALLOWLIST,
+  ACCESS_MODE_DENYLIST,
+  AccessModeUpdated,
+  AllowlistUpdated,
+  ApplicationUpdated,
+  ArchivedRandomness,
+  ArchiveRetentionUpdated,
+  BLOCK_SEED_LOOKBACK,
+  BondDeposited,
+  BondWithdrawal,
+  BondWithdrawalCancelled,
+  BondWithdrawalDelayUpdated,
+  BondWithdrawalRequested,
+  BondWithdrawn,
   BOX_BYTE_COST,
   BOX_CREATE_COST,
+  CallbackApprovalUpdated,
+  CANCELLED_PAGE_SIZE,
+  CancelledPageDeleted,
+  ConsumerAdded,
+  ConsumerRemoved,
+  DenylistUpdated,
+  ERR_ACCOUNT_REQUEST_MUST_USE_PULL_MODE,
+  ERR_ALREADY_LISTED,
+  ERR_ALREADY_OPERATOR,
+  ERR_ALREADY_SUBMITTED,
+  ERR_ARCHIVE_RETENTION_NOT_EXPIRED,
+  ERR_BOND_PAYMENT_MUST_BE_VALID,
+  ERR_BOND_TOO_LOW,
+  ERR_BOND_WITHDRAWAL_DELAY_CANNOT_BE_LOWERED,
+  ERR_BOND_WITHDRAWAL_NOT_READY,
+  ERR_CALLBACK_ALREADY_APPROVED,
+  ERR_CALLBACK_APPROVAL_PAYMENT_MUST_BE_VALID,
+  ERR_CALLBACK_MUST_CONSENT,
+  ERR_CALLBACK_NOT_APPROVED,
+  ERR_CANCELLED_PAGE_NOT_FOUND,
+  ERR_CANCELLED_PAGES,
+  ERR_CONSUMER_ALREADY_REGISTERED,
+  ERR_CONSUMER_MUST_CONSENT,
+  ERR_CONSUMER_NOT_REGISTERED,
   ERR_COSTS_PAYMENT_MUST_BE_VALID,
+  ERR_CREATION_MUST_BE_PAUSED,
+  ERR_CUSTOM_CALLBACK_OPTIONS,
+  ERR_DELETION_LOCKED,
+  ERR_DEPOSIT_PAYMENT_MUST_BE_VALID,
+  ERR_FULFILLER_PAYMENT_MUST_BE_VALID,
+  ERR_INSUFFICIENT_SUBSCRIPTION_BALANCE,
+  ERR_INSUFFICIENT_TREASURY,
+  ERR_INVALID_ACCESS_MODE,
+  ERR_INVALID_CALLBACK_APP,
+  ERR_INVALID_OPERATOR_THRESHOLD,
+  ERR_INVALID_RECURRENCE,
+  ERR_INVALID_UPDATE_POLICY,
+  ERR_LIST_PAYMENT_MUST_BE_VALID,
   ERR_MAX_FUTURE_ROUNDS_CANNOT_BE_ZERO,
+  ERR_MAX_OPERATORS,
   ERR_MAX_PENDING_REQUESTS,
   ERR_MAX_PENDING_REQUESTS_CANNOT_BE_ZERO,
+  ERR_MAX_PENDING_REQUESTS_PER_APP,
+  ERR_MULTI_OPERATOR_MODE,
   ERR_MUST_BE_CALLED_FROM_APP,
   ERR_MUST_BE_FUTURE_ROUND,
+  ERR_MUST_BE_REQUESTER,
+  ERR_NO_PENDING_BOND_WITHDRAWAL,
   ERR_NO_PENDING_REQUESTS,
+  ERR_NO_PENDING_UPDATE,
+  ERR_NO_PREVIOUS_PUBLIC_KEY,
+  ERR_NO_QUOTA_OVERRIDE,
+  ERR_NO_REQUEST_IDS,
+  ERR_NO_RESULT,
+  ERR_NOT_LISTED,
+  ERR_NUM_WORDS_EXCEEDS_MAX,
+  ERR_ONLY_OPERATOR,
+  ERR_ONLY_SUBSCRIPTION_OWNER,
+  ERR_OPEN_SUBSCRIPTIONS,
+  ERR_OPERATOR_PAYMENT_MUST_BE_VALID,
+  ERR_OPERATORS_LOCKED,
+  ERR_PAUSE_PAYMENT_MUST_BE_VALID,
   ERR_PROOF_MUST_BE_VALID,
+  ERR_PUBLIC_KEY_UNCHANGED,
+  ERR_PULL_MODE_OPTIONS,
+  ERR_QUOTA_PAYMENT_MUST_BE_VALID,
+  ERR_RECURRING_PULL_MODE,
   ERR_REQUEST_MUST_BE_STALE,
+  ERR_REQUEST_ROUND_MISMATCH,
+  ERR_REQUESTER_ALREADY_PAUSED,
+  ERR_REQUESTER_NOT_ALLOWED,
+  ERR_REQUESTER_NOT_PAUSED,
+  ERR_REQUESTER_PAUSED,
+  ERR_ROUND_ALREADY_AGGREGATED,
+  ERR_ROUND_HAS_PENDING_REQUESTS,
+  ERR_ROUND_NOT_AGGREGATED,
+  ERR_ROUND_NOT_ARCHIVED,
+  ERR_SINGLE_OPERATOR_MODE,
+  ERR_SUBMISSION_PAYMENT_MUST_BE_VALID,
+  ERR_SUBMISSIONS_NOT_EXPIRED,
+  ERR_SUBSCRIPTION_BALANCES,
+  ERR_SUBSCRIPTION_HAS_CONSUMERS,
+  ERR_SUBSCRIPTION_HAS_PENDING_REQUESTS,
   ERR_TIMEOUT_CANNOT_BE_ZERO,
+  ERR_UPDATE_NOT_ANNOUNCED,
+  ERR_UPDATE_NOT_READY,
+  ERR_UPDATE_POLICY_CANNOT_BE_LOOSENED,
+  ERR_UPDATES_LOCKED,
+  ERR_UPDATES_NOT_TIMELOCKED,
+  MAX_NUM_WORDS,
+  MAX_OPERATORS,
+  MaxFutureRoundsUpdated,
+  MaxPendingRequestsPerAppUpdated,
+  MaxPendingRequestsUpdated,
+  MethodSelector,
+  NOTE_ARCHIVE_BOX_MBR_REFUND,
+  NOTE_BOND_WITHDRAWAL,
   NOTE_BOX_MBR_REFUND,
+  NOTE_CALLBACK_APPROVAL_BOX_MBR_REFUND,
   NOTE_CANCEL_PAYMENT,
+  NOTE_CANCELLATION_REFUND,
   NOTE_CLOSE_OUT_REMAINDER,
   NOTE_FEES_PAYMENT,
+  NOTE_FULFILLER_BOX_MBR_REFUND,
+  NOTE_LIST_BOX_MBR_REFUND,
+  NOTE_OPERATOR_BOX_MBR_REFUND,
+  NOTE_OVERPAYMENT_REFUND,
+  NOTE_PAUSE_BOX_MBR_REFUND,
+  NOTE_QUOTA_BOX_MBR_REFUND,
+  NOTE_RESULT_BOX_MBR_REFUND,
+  NOTE_SUBMISSIONS_BOX_MBR_REFUND,
+  NOTE_SUBSCRIPTION_CLOSE_REFUND,
+  NOTE_SUBSCRIPTION_WITHDRAWAL,
+  NOTE_TREASURY_WITHDRAWAL,
+  NOTE_VERIFICATION_FEES_REFUND,
+  Operator,
+  OperatorAdded,
+  OperatorRemoved,
+  OperatorThresholdUpdated,
+  PAUSE_SCOPE_CANCELLATION,
+  PAUSE_SCOPE_CREATION,
+  PAUSE_SCOPE_FULFILLMENT,
+  PendingUpdate,
+  PremiumUpdated,
+  ProofSubmitted,
+  PublicKeyRetired,
+  PublicKeyRotated,
+  QuotaOverrideRemoved,
+  QuotaOverrideSet,
+  RandomnessArchived,
   RandomnessBeaconRequesterStub,
+  RandomnessCallback,
+  RandomnessClaimed,
+  RandomnessPruned,
   RandomnessRequest,
   RandomnessRequestCosts,
+  RandomnessRequestOptions,
+  RandomnessResult,
+  RandomnessStored,
+  RandomWord,
+  REQUEST_STATUS_CANCELLED,
+  REQUEST_STATUS_FULFILLED,
+  REQUEST_STATUS_NONE,
+  REQUEST_STATUS_PENDING,
   RequestCancelled,
   RequestCreated,
+  RequesterPaused,
+  RequesterUnpaused,
   RequestFulfilled,
+  RequestRescheduled,
+  RoundAggregated,
+  RoundSubmissions,
+  StalePenaltyPaid,
+  StalePenaltyUpdated,
+  StaleRequestTimeoutUpdated,
+  Subscription,
+  SubscriptionClosed,
+  SubscriptionCosts,
+  SubscriptionCreated,
+  SubscriptionDeposited,
+  SubscriptionWithdrawn,
+  TreasuryWithdrawn,
+  UPDATE_POLICY_LOCKED,
+  UPDATE_POLICY_TIMELOCKED,
+  UpdateAnnounced,
+  UpdateCancelled,
+  UpdatePolicyUpdated,
+  VRF_VERIFY_TXNS,
+  VrfOutput,
   VrfProof,
   VrfPublicKey,
+  WORD_EXPANSION_OPCODE_COST,
 } from './types.algo'
 
-export class RandomnessBeacon extends classes(Managable, Pausable) implements arc4.ConventionalRouting {
+export class RandomnessBeacon extends classes(Managable, Pausable, Fulfillable) implements arc4.ConventionalRouting {
   /* the public key used to verify VRF proofs */
   publicKey = GlobalState<VrfPublicKey>({ key: 'publicKey' })
 
+  /* the public key that was active before the last rotation, accepted until previousPublicKeyExpiresAt */
+  previousPublicKey = GlobalState<VrfPublicKey>({ key: 'previousPublicKey' })
+
+  /* the round from which proofs of the previous public key are no longer accepted, 0 if there is none */
+  previousPublicKeyExpiresAt = GlobalState<uint64>({ key: 'previousPublicKeyExpiresAt', initialValue: 0 })
+
   /* the next requestId index, useful for tracking. set to 1 initially */
   nextRequestId = GlobalState<uint64>({ key: 'nextRequestId', initialValue: 1 })
 
   /* box map of randomness requests */
   requests = BoxMap<uint64, RandomnessRequest>({ keyPrefix: 'requests' })
 
+  /* box map of bitmap pages, a set bit marks a cancelled request (finished requests are fulfilled otherwise) */
+  cancelledRequests = BoxMap<uint64, bytes<64>>({ keyPrefix: 'cancelled' })
+
+  /* number of cancelled requests bitmap pages, they must be deleted before the app */
+  cancelledPages = GlobalState<uint64>({ key: 'cancelledPages', initialValue: 0 })
+
+  /* box map of pull mode request outputs, waiting to be claimed */
+  results = BoxMap<uint64, RandomnessResult>({ keyPrefix: 'results' })
+
+  /* box map of verified VRF outputs keyed by round, the public randomness archive */
+  archive = BoxMap<uint64, ArchivedRandomness>({ keyPrefix: 'archive' })
+
+  /* rounds an archived output is kept for after its round before anyone can prune it, 0 to keep outputs forever */
+  archiveRetention = GlobalState<uint64>({ key: 'archiveRetention', initialValue: 0 })
+
   /**
    * Max rounds in the future ([current round] + maxFutureRounds) allowed for requests
    */
@@ -81,6 +271,96 @@ export class RandomnessBeacon extends classes(Managable, Pausable) implements ar
   /* total number of pending requests, useful for limiting load on the contract */
   totalPendingRequests = GlobalState<uint64>({ key: 'totalPendingRequests', initialValue: 0 })
 
+  /* how the manager can update the application (open, timelocked or locked), can only move towards locked */
+  updatePolicy = GlobalState<uint64>({ key: 'updatePolicy', initialValue: 0 })
+
+  /* rounds between announcing and applying an update when timelocked */
+  updateDelay = GlobalState<uint64>({ key: 'updateDelay', initialValue: 0 })
+
+  /* update announced while timelocked, until it is applied or cancelled */
+  pendingUpdate = GlobalState<PendingUpdate>({ key: 'pendingUpdate' })
+
+  /* max pending requests of a single requester app (unless it has a quota override), 0 for no quota */
+  maxPendingRequestsPerApp = GlobalState<uint64>({ key: 'maxPendingRequestsPerApp', initialValue: 0 })
+
+  /* box map of pending requests per requester app, deleted with the last pending request of the app */
+  pendingRequestsByApp = BoxMap<uint64, uint64>({ keyPrefix: 'pending' })
+
+  /* box map of pending account requests per requester address, accounts share the requester app ID 0 */
+  pendingRequestsByAccount = BoxMap<Account, uint64>({ keyPrefix: 'pendingAccount' })
+
+  /* box map of requester apps the pauser stopped from creating requests */
+  pausedRequesters = BoxMap<uint64, boolean>({ keyPrefix: 'pausedRequesters' })
+
+  /* box map of pending requests quotas replacing maxPendingRequestsPerApp for specific requester apps */
+  quotaOverrides = BoxMap<uint64, uint64>({ keyPrefix: 'quotas' })
+
+  /* the premium (in microAlgos) charged for every request, on top of its costs */
+  premium = GlobalState<uint64>({ key: 'premium', initialValue: 0 })
+
+  /* premiums earned by fulfilled requests, the only funds the manager can withdraw */
+  treasury = GlobalState<uint64>({ key: 'treasury', initialValue: 0 })
+
+  /* operator bond posted by the manager, stale requests are compensated from it */
+  bond = GlobalState<uint64>({ key: 'bond', initialValue: 0 })
+
+  /* part of the bond owed to the pending requests, the sum of their stale penalties */
+  lockedBond = GlobalState<uint64>({ key: 'lockedBond', initialValue: 0 })
+
+  /* the penalty (in microAlgos) new requests are paid from the bond if they are cancelled once stale */
+  stalePenalty = GlobalState<uint64>({ key: 'stalePenalty', initialValue: 0 })
+
+  /* rounds between requesting and making a bond withdrawal */
+  bondWithdrawalDelay = GlobalState<uint64>({ key: 'bondWithdrawalDelay', initialValue: 0 })
+
+  /* bond withdrawal requested by the manager, set by requestBondWithdrawal() until it is made or cancelled */
+  pendingBondWithdrawal = GlobalState<BondWithdrawal>({ key: 'pendingBondWithdrawal' })
+
+  /* number of operator proofs combined into a round output, 0 to verify a single proof against publicKey */
+  operatorThreshold = GlobalState<uint64>({ key: 'operatorThreshold', initialValue: 0 })
+
+  /* number of registered operators */
+  operatorCount = GlobalState<uint64>({ key: 'operatorCount', initialValue: 0 })
+
+  /* bitmask of the operator indexes in use */
+  operatorIndexes = GlobalState<uint64>({ key: 'operatorIndexes', initialValue: 0 })
+
+  /* box map of k-of-n operators and their VRF public keys */
+  operators = BoxMap<Account, Operator>({ keyPrefix: 'operators' })
+
+  /* box map of the operator proofs submitted for a round */
+  submissions = BoxMap<uint64, RoundSubmissions>({ keyPrefix: 'submissions' })
+
+  /* box map of the number of pending requests targeting a round in k-of-n mode */
+  roundRequests = BoxMap<uint64, uint64>({ keyPrefix: 'roundRequests' })
+
+  /* who can create requests, one of ACCESS_MODE_OPEN, ACCESS_MODE_ALLOWLIST or ACCESS_MODE_DENYLIST */
+  accessMode = GlobalState<uint64>({ key: 'accessMode', initialValue: 0 })
+
+  /* box map of requester app IDs allowed to create requests in allowlist mode */
+  allowlist = BoxMap<uint64, boolean>({ keyPrefix: 'allowlist' })
+
+  /* box map of requester app IDs not allowed to create requests in denylist mode */
+  denylist = BoxMap<uint64, boolean>({ keyPrefix: 'denylist' })
+
+  /* the next subscriptionId index, set to 1 initially (0 means no subscription) */
+  nextSubscriptionId = GlobalState<uint64>({ key: 'nextSubscriptionId', initialValue: 1 })
+
+  /* box map of prepaid subscriptions */
+  subscriptions = BoxMap<uint64, Subscription>({ keyPrefix: 'subscriptions' })
+
+  /* sum of the subscription balances, owed to the subscription owners */
+  subscriptionBalances = GlobalState<uint64>({ key: 'subscriptionBalances', initialValue: 0 })
+
+  /* number of subscriptions that are not closed, their box costs are owed to their owners */
+  openSubscriptions = GlobalState<uint64>({ key: 'openSubscriptions', initialValue: 0 })
+
+  /* box map of consumer app IDs to the subscription their requests are paid from */
+  consumers = BoxMap<uint64, uint64>({ keyPrefix: 'consumers' })
+
+  /* box map of the requester apps a callback app agreed to be called back for, keyed by the two app IDs */
+  callbackApprovals = BoxMap<bytes<16>, boolean>({ keyPrefix: 'callbackApprovals' })
+
   /**
    *
    * Deletes a requests box and decrements the totalPendingRequests
@@ -89,10 +369,64 @@ export class RandomnessBeacon extends classes(Managable, Pausable) implements ar
   private _deleteRequest(requestId: uint64): void {
     // decrement pending requests
     this.totalPendingRequests.value -= 1
+    // the request no longer needs its stale penalty
+    this.lockedBond.value -= this.requests(requestId).value.stalePenalty
+    // decrement the pending requests of the requester, its last request frees the counter
+    const requesterAppId = this.requests(requestId).value.requesterAppId
+    const requester = this.requests(requestId).value.requesterAddress.native
+    if (requesterAppId !== 0) {
+      if (this.pendingRequestsByApp(requesterAppId).value === 1) {
+        this.pendingRequestsByApp(requesterAppId).delete()
+      } else {
+        this.pendingRequestsByApp(requesterAppId).value -= 1
+      }
+    } else if (this.pendingRequestsByAccount(requester).value === 1) {
+      this.pendingRequestsByAccount(requester).delete()
+    } else {
+      this.pendingRequestsByAccount(requester).value -= 1
+    }
+    // the subscription it was paid from can be closed once it has no pending request
+    const subscriptionId = this.requests(requestId).value.subscriptionId
+    if (subscriptionId !== 0) {
+      this.subscriptions(subscriptionId).value.pendingRequests -= 1
+    }
+    this._removeRoundRequest(this.requests(requestId).value.round)
     // delete the box
     this.requests(requestId).delete()
   }
 
+  /**
+   * Counts a pending request of a round in k-of-n mode, the counter box cost is paid with the request
+   * @param round the round the request targets
+   * @description the submissions of a round cannot be pruned while it counts requests, see pruneSubmissions()
+   */
+  private _addRoundRequest(round: uint64): void {
+    if (this.operatorThreshold.value === 0) {
+      return
+    }
+    if (this.roundRequests(round).exists) {
+      this.roundRequests(round).value += 1
+    } else {
+      this.roundRequests(round).value = 1
+    }
+  }
+
+  /**
+   * Stops counting a pending request of a round, its last request frees the counter
+   * @param round the round the request targets
+   */
+  private _removeRoundRequest(round: uint64): void {
+    // requests of the single operator mode are not counted, the threshold cannot change while they are pending
+    if (!this.roundRequests(round).exists) {
+      return
+    }
+    if (this.roundRequests(round).value === 1) {
+      this.roundRequests(round).delete()
+    } else {
+      this.roundRequests(round).value -= 1
+    }
+  }
+
   /**
    * Gets and increments the next request ID
    * @returns the next available request ID
@@ -107,6 +441,252 @@ export class RandomnessBeacon extends classes(Managable, Pausable) implements ar
     return requestId
   }
 
+  /**
+   * Adds up everything a request has to pay for
+   * @param costs the request costs
+   * @returns fees + boxMbr + callbackFee + resultBoxMbr + archiveBoxMbr + premium
+   */
+  private _sumCosts(costs: RandomnessRequestCosts): uint64 {
+    return costs.fees + costs.boxMbr + costs.callbackFee + costs.resultBoxMbr + costs.archiveBoxMbr + costs.premium
+  }
+
+  /**
+   * Adds up everything a request has to pay for over its deliveries
+   * @param costs the costs of a single delivery
+   * @param deliveries the number of deliveries
+   * @returns the costs of a single delivery, plus those of the other deliveries without the box cost paid once
+   */
+  private _sumPrepaidCosts(costs: RandomnessRequestCosts, deliveries: uint64): uint64 {
+    const totalCosts = this._sumCosts(costs)
+
+    return totalCosts + (deliveries - 1) * (totalCosts - costs.boxMbr)
+  }
+
+  /**
+   * Refunds a requester, or credits the subscription its costs were debited from
+   * @param subscriptionId the subscription to credit, 0 to send a payment instead
+   * @param receiver who receives the payment when there is no subscription (or it was closed)
+   * @param amount the amount to refund
+   * @param note the note of the payment
+   * @description unclaimed results and archived outputs can outlive their subscription, they refund the receiver
+   */
+  private _refund(subscriptionId: uint64, receiver: arc4.Address, amount: uint64, note: string): void {
+    if (subscriptionId !== 0 && this.subscriptions(subscriptionId).exists) {
+      this._creditSubscription(subscriptionId, amount)
+      return
+    }
+
+    itxn
+      .payment({
+        receiver: receiver.native,
+        amount: amount,
+        note: note,
+        fee: 0, // force group to cover it
+      })
+      .submit()
+  }
+
+  /**
+   * Adds to the balance of a subscription
+   * @param subscriptionId the ID of the subscription
+   * @param amount the amount to credit
+   */
+  private _creditSubscription(subscriptionId: uint64, amount: uint64): void {
+    this.subscriptions(subscriptionId).value.balance += amount
+    this.subscriptionBalances.value += amount
+  }
+
+  /**
+   * Takes from the balance of a subscription
+   * @param subscriptionId the ID of the subscription
+   * @param amount the amount to debit, up to the balance
+   */
+  private _debitSubscription(subscriptionId: uint64, amount: uint64): void {
+    assert(this.subscriptions(subscriptionId).value.balance >= amount, ERR_INSUFFICIENT_SUBSCRIPTION_BALANCE)
+    this.subscriptions(subscriptionId).value.balance -= amount
+    this.subscriptionBalances.value -= amount
+  }
+
+  /**
+   * Checks the requester app against the access mode and lists
+   * @param requesterAppId the application ID of the requester, 0 for account requests
+   * @returns true if the requester can create requests
+   */
+  private _isRequesterAllowed(requesterAppId: uint64): boolean {
+    if (this.accessMode.value === ACCESS_MODE_ALLOWLIST) {
+      return this.allowlist(requesterAppId).exists
+    }
+    if (this.accessMode.value === ACCESS_MODE_DENYLIST) {
+      return !this.denylist(requesterAppId).exists
+    }
+    return true
+  }
+
+  /**
+   * Sets the bit of a cancelled request, creating its bitmap page if needed
+   * @param requestId the ID of the cancelled request
+   * @returns true if a new page was created, it is paid with the page box cost included in the request boxMbr
+   */
+  private _markCancelled(requestId: uint64): boolean {
+    const page: uint64 = requestId / (CANCELLED_PAGE_SIZE * 8)
+
+    let createdPage = false
+    if (!this.cancelledRequests(page).exists) {
+      this.cancelledRequests(page).value = op.bzero(CANCELLED_PAGE_SIZE).toFixed({ length: 64 })
+      this.cancelledPages.value += 1
+      createdPage = true
+    }
+
+    this.cancelledRequests(page).value = op
+      .setBit(this.cancelledRequests(page).value, requestId % (CANCELLED_PAGE_SIZE * 8), 1)
+      .toFixed({ length: 64 })
+
+    return createdPage
+  }
+
+  /**
+   * Gets the number of pending requests of a requester
+   * @param requesterAppId the application ID of the requester, 0 for account requests
+   * @param requester the requester address, account requests are counted per address
+   * @returns the pending requests of the requester app, or of the account for account requests
+   */
+  private _getPendingRequests(requesterAppId: uint64, requester: Account): uint64 {
+    if (requesterAppId !== 0) {
+      return this.pendingRequestsByApp(requesterAppId).exists ? this.pendingRequestsByApp(requesterAppId).value : 0
+    }
+
+    return this.pendingRequestsByAccount(requester).exists ? this.pendingRequestsByAccount(requester).value : 0
+  }
+
+  /**
+   * Checks the requester can have one more pending request
+   * @param requesterAppId the application ID of the requester, 0 for account requests
+   * @param requester the requester address, account requests are counted per address
+   * @returns true if the requester app (or account) is under its quota
+   * @description the quota of requester app ID 0 applies to every account on its own
+   */
+  private _isUnderQuota(requesterAppId: uint64, requester: Account): boolean {
+    const quota = this.quotaOverrides(requesterAppId).exists
+      ? this.quotaOverrides(requesterAppId).value
+      : this.maxPendingRequestsPerApp.value
+    // no quota, only the global maxPendingRequests applies
+    if (quota === 0) {
+      return true
+    }
+
+    return this._getPendingRequests(requesterAppId, requester) < quota
+  }
+
+  /**
+   * Ensures the sender owns the subscription
+   * @param subscriptionId the ID of the subscription
+   */
+  private _onlySubscriptionOwner(subscriptionId: uint64): void {
+    assert(this.subscriptions(subscriptionId).value.owner.native === Txn.sender, ERR_ONLY_SUBSCRIPTION_OWNER)
+  }
+
+  /**
+   * Ensures the sender is the callback app (calling through an inner txn) or its creator
+   * @param callbackAppId the application ID of the callback app
+   */
+  private _onlyCallbackApp(callbackAppId: uint64): void {
+    assert(
+      Global.callerApplicationId === callbackAppId || Application(callbackAppId).creator === Txn.sender,
+      ERR_CALLBACK_MUST_CONSENT,
+    )
+  }
+
+  /**
+   * Gets the key of a callback approval
+   * @param callbackAppId the application ID of the callback app
+   * @param requesterAppId the application ID of the requester app
+   * @returns itob(callbackAppId) || itob(requesterAppId)
+   */
+  private _callbackApprovalKey(callbackAppId: uint64, requesterAppId: uint64): bytes<16> {
+    return op.itob(callbackAppId).concat(op.itob(requesterAppId)).toFixed({ length: 16 })
+  }
+
+  /**
+   * Checks if the previous public key is still within its overlap window
+   * @returns true if proofs of the previous public key are still accepted
+   */
+  private _isPreviousPublicKeyActive(): boolean {
+    return Global.round < this.previousPublicKeyExpiresAt.value
+  }
+
+  /**
+   * Verifies a VRF proof against the block seed of the given round
+   * @param round the round whose block seed was used as the VRF message
+   * @param proof the VRF proof
+   * @returns the verified VRF output, and true if it was verified with the previous public key
+   * @description the active public key is tried first, the previous public key is only tried during its overlap window
+   */
+  private _verifyProof(round: uint64, proof: VrfProof): readonly [VrfOutput, boolean] {
+    // get block seed of the target round
+    const blockSeed = op.Block.blkSeed(round)
+    // increase opcode budget using app account balance (should be pre-funded by the caller to cover this cost)
+    ensureBudget(5700, OpUpFeeSource.GroupCredit)
+    // verify vrf proof against the active public key
+    const [output, verified] = op.vrfVerify(VrfVerify.VrfAlgorand, blockSeed, proof, this.publicKey.value)
+    if (verified) {
+      return [output, false]
+    }
+    // otherwise the proof can only be valid for the previous key, while it is still in the overlap window
+    assert(this._isPreviousPublicKeyActive(), ERR_PROOF_MUST_BE_VALID)
+    // a second verification is needed, paid with the previousKeyVerifyFee of the request (see getCosts())
+    ensureBudget(5700, OpUpFeeSource.GroupCredit)
+    const [previousOutput, previousVerified] = op.vrfVerify(
+      VrfVerify.VrfAlgorand,
+      blockSeed,
+      proof,
+      this.previousPublicKey.value,
+    )
+    // must be verified
+    assert(previousVerified, ERR_PROOF_MUST_BE_VALID)
+
+    return [previousOutput, true]
+  }
+
+  /**
+   * Derives the output of a request from the verified VRF output of its round
+   * @param requestId the ID of the VRF request
+   * @param request the VRF request
+   * @param vrfOutput the verified VRF output of the request round
+   * @returns the request output passed to the requester
+   * @description message = vrfOutput || itob(requestId) || itob(requesterAppId) || requesterAddress || salt
+   * output = sha512_256(message || itob(0)) || sha512_256(message || itob(1))
+   */
+  private _deriveRequestOutput(requestId: uint64, request: RandomnessRequest, vrfOutput: VrfOutput): VrfOutput {
+    const message = vrfOutput
+      .concat(op.itob(requestId))
+      .concat(op.itob(request.requesterAppId))
+      .concat(request.requesterAddress.bytes)
+      .concat(request.options.salt.bytes)
+
+    return op
+      .sha512_256(message.concat(op.itob(0)))
+      .concat(op.sha512_256(message.concat(op.itob(1))))
+      .toFixed({ length: 64 })
+  }
+
+  /**
+   * Expands a request output into random words
+   * @param output the request output
+   * @param numWords how many words to expand
+   * @returns the random words, word[i] = sha512_256(output || itob(i))
+   */
+  private _expandRandomWords(output: VrfOutput, numWords: uint64): RandomWord[] {
+    // budget is covered by the extra fees priced in getCosts()
+    ensureBudget(numWords * WORD_EXPANSION_OPCODE_COST, OpUpFeeSource.GroupCredit)
+
+    const words: RandomWord[] = []
+    for (let i: uint64 = 0; i < numWords; i++) {
+      words.push(op.sha512_256(output.concat(op.itob(i))))
+    }
+
+    return words
+  }
+
   /**
    * Called upon application creation
    * @param publicKey the public key used to verify VRF proofs we will accept
@@ -134,16 +714,238 @@ export class RandomnessBeacon extends classes(Managable, Pausable) implements ar
     this.staleRequestTimeout.value = staleRequestTimeout
   }
 
-  // should not be enabled in production
+  /**
+   * Updates the maximum number of pending requests
+   * @param maxPendingRequests the maximum number of pending requests allowed at any time
+   * @description lowering it below the current pending requests only blocks new requests
+   */
+  public setMaxPendingRequests(maxPendingRequests: uint64): void {
+    this.onlyManager()
+    assert(maxPendingRequests > 0, ERR_MAX_PENDING_REQUESTS_CANNOT_BE_ZERO)
+
+    const previousMaxPendingRequests = this.maxPendingRequests.value
+    this.maxPendingRequests.value = maxPendingRequests
+
+    emit<MaxPendingRequestsUpdated>({
+      previousMaxPendingRequests: previousMaxPendingRequests,
+      maxPendingRequests: maxPendingRequests,
+    })
+  }
+
+  /**
+   * Updates the maximum round in the future a request can be targeted
+   * @param maxFutureRounds the maximum round in the future a request can be targeted
+   */
+  public setMaxFutureRounds(maxFutureRounds: uint64): void {
+    this.onlyManager()
+    assert(maxFutureRounds > 0, ERR_MAX_FUTURE_ROUNDS_CANNOT_BE_ZERO)
+
+    const previousMaxFutureRounds = this.maxFutureRounds.value
+    this.maxFutureRounds.value = maxFutureRounds
+
+    emit<MaxFutureRoundsUpdated>({
+      previousMaxFutureRounds: previousMaxFutureRounds,
+      maxFutureRounds: maxFutureRounds,
+    })
+  }
+
+  /**
+   * Updates the number of rounds after the target round a request can be cancelled
+   * @param staleRequestTimeout the number of rounds after the target round a request can be cancelled
+   * @description applies to pending requests too, the daemon picks it up on its next poll
+   */
+  public setStaleRequestTimeout(staleRequestTimeout: uint64): void {
+    this.onlyManager()
+    assert(staleRequestTimeout > 0, ERR_TIMEOUT_CANNOT_BE_ZERO)
+
+    const previousStaleRequestTimeout = this.staleRequestTimeout.value
+    this.staleRequestTimeout.value = staleRequestTimeout
+
+    emit<StaleRequestTimeoutUpdated>({
+      previousStaleRequestTimeout: previousStaleRequestTimeout,
+      staleRequestTimeout: staleRequestTimeout,
+    })
+  }
+
+  /**
+   * Rotates the public key used to verify VRF proofs
+   * @param newPublicKey the public key to accept proofs from
+   * @param overlapRounds how many rounds proofs of the current public key are still accepted for
+   * @description pending requests can be completed with either key during the overlap window
+   */
+  public rotatePublicKey(newPublicKey: VrfPublicKey, overlapRounds: uint64): void {
+    this.onlyManager()
+    // rotating to the same key would expire it as the previous key
+    assert(newPublicKey !== this.publicKey.value, ERR_PUBLIC_KEY_UNCHANGED)
+
+    const previousPublicKey = this.publicKey.value
+    const previousPublicKeyExpiresAt: uint64 = Global.round + overlapRounds
+
+    // keep the current key valid during the overlap window
+    this.previousPublicKey.value = previousPublicKey
+    this.previousPublicKeyExpiresAt.value = previousPublicKeyExpiresAt
+    // new key becomes the active one
+    this.publicKey.value = newPublicKey
+
+    emit<PublicKeyRotated>({
+      previousPublicKey: previousPublicKey,
+      publicKey: newPublicKey,
+      previousPublicKeyExpiresAt: previousPublicKeyExpiresAt,
+    })
+  }
+
+  /**
+   * Retires the previous public key before its overlap window ends
+   */
+  public retirePreviousPublicKey(): void {
+    this.onlyManager()
+    // nothing to retire if the overlap window is over
+    assert(this._isPreviousPublicKeyActive(), ERR_NO_PREVIOUS_PUBLIC_KEY)
+
+    this.previousPublicKeyExpiresAt.value = Global.round
+
+    emit<PublicKeyRetired>({
+      publicKey: this.previousPublicKey.value,
+    })
+  }
+
+  /**
+   * Called upon application update, allowed by the update policy
+   * @description timelocked updates must match an announced approval program once its delay has passed
+   */
   updateApplication(): void {
     this.onlyManager()
+    assert(this.updatePolicy.value !== UPDATE_POLICY_LOCKED, ERR_UPDATES_LOCKED)
+
+    const approvalProgramHash = this._hashApprovalProgram()
+    if (this.updatePolicy.value === UPDATE_POLICY_TIMELOCKED) {
+      assert(this.pendingUpdate.hasValue, ERR_NO_PENDING_UPDATE)
+      assert(this.pendingUpdate.value.approvalProgramHash === approvalProgramHash, ERR_UPDATE_NOT_ANNOUNCED)
+      assert(Global.round >= this.getUpdateReadyAt(), ERR_UPDATE_NOT_READY)
+      this.pendingUpdate.delete()
+    }
+
+    emit<ApplicationUpdated>({ approvalProgramHash: approvalProgramHash, updatePolicy: this.updatePolicy.value })
+  }
+
+  /**
+   * Hashes the approval program of the current update call
+   * @returns sha512_256 chained over the pages, hash = sha512_256(hash + page) starting from an empty hash
+   * @description a whole program can exceed the max bytes length, so the pages are hashed one at a time
+   */
+  private _hashApprovalProgram(): bytes<32> {
+    let hash = Bytes()
+    for (let i: uint64 = 0; i < Txn.numApprovalProgramPages; i++) {
+      hash = op.sha512_256(hash.concat(Txn.approvalProgramPages(i)))
+    }
+
+    return hash.toFixed({ length: 32 })
+  }
+
+  /**
+   * Tightens how the application can be updated
+   * @param updatePolicy UPDATE_POLICY_OPEN, UPDATE_POLICY_TIMELOCKED or UPDATE_POLICY_LOCKED (permanent)
+   * @param updateDelay rounds between announcing and applying an update when timelocked
+   * @description the policy can only move towards locked and the delay can only grow, so consumers can rely on them
+   */
+  public setUpdatePolicy(updatePolicy: uint64, updateDelay: uint64): void {
+    this.onlyManager()
+    assert(updatePolicy <= UPDATE_POLICY_LOCKED, ERR_INVALID_UPDATE_POLICY)
+    // locked is final
+    assert(this.updatePolicy.value !== UPDATE_POLICY_LOCKED, ERR_UPDATES_LOCKED)
+    assert(
+      updatePolicy >= this.updatePolicy.value && updateDelay >= this.updateDelay.value,
+      ERR_UPDATE_POLICY_CANNOT_BE_LOOSENED,
+    )
+
+    const previousUpdatePolicy = this.updatePolicy.value
+    this.updatePolicy.value = updatePolicy
+    this.updateDelay.value = updateDelay
+    // an announced update can never be applied once locked
+    if (updatePolicy === UPDATE_POLICY_LOCKED && this.pendingUpdate.hasValue) {
+      this.pendingUpdate.delete()
+    }
+
+    emit<UpdatePolicyUpdated>({
+      previousUpdatePolicy: previousUpdatePolicy,
+      updatePolicy: updatePolicy,
+      updateDelay: updateDelay,
+    })
+  }
+
+  /**
+   * Announces a timelocked update, it can be applied once the update delay has passed
+   * @param approvalProgramHash sha512_256 chained over the pages of the new approval program
+   * @description replaces any announced update, restarting the delay
+   */
+  public announceUpdate(approvalProgramHash: bytes<32>): void {
+    this.onlyManager()
+    assert(this.updatePolicy.value === UPDATE_POLICY_TIMELOCKED, ERR_UPDATES_NOT_TIMELOCKED)
+
+    const readyAt: uint64 = Global.round + this.updateDelay.value
+    this.pendingUpdate.value = { approvalProgramHash: approvalProgramHash, readyAt: readyAt, announcedAt: Global.round }
+
+    emit<UpdateAnnounced>({ approvalProgramHash: approvalProgramHash, readyAt: readyAt })
+  }
+
+  /**
+   * Gets the first round the announced update can be applied
+   * @returns the round announced, or later if the update delay was raised since the announcement
+   */
+  @readonly
+  public getUpdateReadyAt(): uint64 {
+    assert(this.pendingUpdate.hasValue, ERR_NO_PENDING_UPDATE)
+
+    const delayedReadyAt: uint64 = this.pendingUpdate.value.announcedAt + this.updateDelay.value
+    return delayedReadyAt > this.pendingUpdate.value.readyAt ? delayedReadyAt : this.pendingUpdate.value.readyAt
+  }
+
+  /**
+   * Cancels the announced update
+   */
+  public cancelUpdate(): void {
+    this.onlyManager()
+    assert(this.pendingUpdate.hasValue, ERR_NO_PENDING_UPDATE)
+
+    const approvalProgramHash = this.pendingUpdate.value.approvalProgramHash
+    this.pendingUpdate.delete()
+
+    emit<UpdateCancelled>({ approvalProgramHash: approvalProgramHash })
+  }
+
+  /**
+   * Deletes pages of the cancelled requests bitmap before deleting the app
+   * @param pages the page indexes to delete
+   * @description request creation must be paused with no pending requests left, the statuses of the deleted pages
+   * are lost (their cancelled requests then read as fulfilled). The page box costs go back to the beacon balance
+   */
+  public deleteCancelledPages(pages: uint64[]): void {
+    this.onlyManager()
+    assert(this.isScopePaused(PAUSE_SCOPE_CREATION), ERR_CREATION_MUST_BE_PAUSED)
+    assert(this.totalPendingRequests.value === 0, ERR_NO_PENDING_REQUESTS)
+
+    for (const page of pages) {
+      assert(this.cancelledRequests(page).exists, ERR_CANCELLED_PAGE_NOT_FOUND)
+      this.cancelledRequests(page).delete()
+      this.cancelledPages.value -= 1
+
+      emit<CancelledPageDeleted>({ page: page })
+    }
   }
 
   // delete app, pay manager back any remaining algos
   deleteApplication(): void {
     this.onlyManager()
+    // consumers of a locked app rely on it staying as it is
+    assert(this.updatePolicy.value !== UPDATE_POLICY_LOCKED, ERR_DELETION_LOCKED)
     // cannot have any pending requests
     assert(this.totalPendingRequests.value === 0, ERR_NO_PENDING_REQUESTS)
+    // subscription balances belong to their owners, they must withdraw them first
+    assert(this.subscriptionBalances.value === 0, ERR_SUBSCRIPTION_BALANCES)
+    // their box costs are owed to their owners too, they must be closed first
+    assert(this.openSubscriptions.value === 0, ERR_OPEN_SUBSCRIPTIONS)
+    // pages left behind would keep their box costs locked
+    assert(this.cancelledPages.value === 0, ERR_CANCELLED_PAGES)
     // send remaining algos back to the manager
     itxn
       .payment({
@@ -163,58 +965,91 @@ export class RandomnessBeacon extends classes(Managable, Pausable) implements ar
     this.requests(requestId).value = clone(request)
     // increment the total pending requests
     this.totalPendingRequests.value += 1
+    // hold back the stale penalty of the request from bond withdrawals
+    this.lockedBond.value += request.stalePenalty
+    // increment the pending requests of the requester, the counter box cost is paid with the request
+    const pending: uint64 = this._getPendingRequests(request.requesterAppId, request.requesterAddress.native) + 1
+    if (request.requesterAppId !== 0) {
+      this.pendingRequestsByApp(request.requesterAppId).value = pending
+    } else {
+      this.pendingRequestsByAccount(request.requesterAddress.native).value = pending
+    }
+    if (request.subscriptionId !== 0) {
+      this.subscriptions(request.subscriptionId).value.pendingRequests += 1
+    }
+    this._addRoundRequest(request.round)
     // return requestId
     return requestId
   }
 
   /**
-   *
-   * @param requesterAddress who the request is on behalf of?
+   * Validates and stores a new request, shared by app, account and subscription requests
+   * @param requesterAppId the app to call back, 0 for account requests
+   * @param requesterAddress who the request is on behalf of
    * @param round the round to request the randomness for
-   * @param costsPayment payment covering txnFees + boxCost
+   * @param options the request options, see RandomnessRequestOptions
+   * @param amountPaid amount paid for the request, covering txnFees + boxCost
+   * @param subscriptionId the subscription the amount was debited from, 0 if it was paid with a payment
+   * @param interval rounds between the deliveries of a recurring request, 0 for a single delivery
+   * @param deliveries the number of deliveries paid for, 1 for a single delivery
+   * @param callback the app and method the output is delivered to
    * @returns a unique request ID to be used to identify the request
    */
-  public createRequest(requesterAddress: arc4.Address, round: uint64, costsPayment: gtxn.PaymentTxn): uint64 {
+  private _requestRandomness(
+    requesterAppId: uint64,
+    requesterAddress: arc4.Address,
+    round: uint64,
+    options: RandomnessRequestOptions,
+    amountPaid: uint64,
+    subscriptionId: uint64,
+    interval: uint64,
+    deliveries: uint64,
+    callback: RandomnessCallback,
+  ): uint64 {
     // when not paused, users can create new requests
-    this.whenNotPaused()
+    this.whenNotPaused(PAUSE_SCOPE_CREATION)
+    // the requester app itself can be paused
+    assert(!this.pausedRequesters(requesterAppId).exists, ERR_REQUESTER_PAUSED)
+    // ensure the requester passes the access lists
+    assert(this._isRequesterAllowed(requesterAppId), ERR_REQUESTER_NOT_ALLOWED)
     // ensure there is capacity for more pending requests
     assert(this.totalPendingRequests.value < this.maxPendingRequests.value, ERR_MAX_PENDING_REQUESTS)
+    // ensure a single requester app (or account) cannot take every slot
+    assert(this._isUnderQuota(requesterAppId, requesterAddress.native), ERR_MAX_PENDING_REQUESTS_PER_APP)
+    // ensure the bond can compensate every pending request if the operator fails to fulfill them
+    assert(this.bond.value >= this.lockedBond.value + this.stalePenalty.value, ERR_BOND_TOO_LOW)
     // ensure the requested round is in the future
     assert(round > Global.round, ERR_MUST_BE_FUTURE_ROUND)
     // ensure the requested round is within the allowed future round limit
     assert(round <= Global.round + this.maxFutureRounds.value, 'error: round exceeds max future round')
-    // get caller app id
-    const callerAppId = Global.callerApplicationId
-    // this method should only be callable by app inner txns
-    assert(callerAppId !== 0, ERR_MUST_BE_CALLED_FROM_APP)
+    // bound the words so the callback fits in a single app call
+    assert(options.numWords <= MAX_NUM_WORDS, ERR_NUM_WORDS_EXCEEDS_MAX)
+    // pull mode requests are never called back
+    if (options.pullMode) {
+      assert(options.numWords === 0 && options.callbackFee === 0, ERR_PULL_MODE_OPTIONS)
+    }
     // get minimimum expected fees and costs
-    const { fees, boxMbr } = this.getCosts()
-    // ensure costsPayment covers fees and boxcost
-    assertMatch(
-      costsPayment,
-      {
-        receiver: Global.currentApplicationAddress,
-        amount: {
-          // should cover the required fees + box storage cost (will be refunded)
-          greaterThanEq: fees + boxMbr,
-        },
-      },
-      ERR_COSTS_PAYMENT_MUST_BE_VALID,
-    )
-
-    // calc fees paid = total - boxCost
-    const feesPaid: uint64 = costsPayment.amount - boxMbr
+    const costs = this.getCosts(options)
+    // should cover the required fees + box storage costs (will be refunded) + callback fee + premium, per delivery
+    const prepaidCosts = this._sumPrepaidCosts(costs, deliveries)
+    assert(amountPaid >= prepaidCosts, ERR_COSTS_PAYMENT_MUST_BE_VALID)
 
     // make this readonly
     const r: RandomnessRequest = {
       createdAt: Global.round,
-      requesterAppId: callerAppId,
+      requesterAppId: requesterAppId,
       requesterAddress: requesterAddress,
       round: round,
-      costs: {
-        fees: feesPaid,
-        boxMbr: boxMbr,
-      },
+      // the caller is only paid the fee schedule of getCosts, the premium is only earned once the request is fulfilled
+      costs: clone(costs),
+      options: clone(options),
+      subscriptionId: subscriptionId,
+      // anything above the costs goes back to the requester
+      overpayment: amountPaid - prepaidCosts,
+      stalePenalty: this.stalePenalty.value,
+      interval: interval,
+      remainingDeliveries: deliveries,
+      callback: clone(callback),
     }
 
     // create new request, store box, update state etc
@@ -232,16 +1067,434 @@ export class RandomnessBeacon extends classes(Managable, Pausable) implements ar
     return requestId
   }
 
+  /**
+   *
+   * @param requesterAddress who the request is on behalf of?
+   * @param round the round to request the randomness for
+   * @param options the request options, see RandomnessRequestOptions
+   * @param costsPayment payment covering txnFees + boxCost
+   * @returns a unique request ID to be used to identify the request
+   */
+  public createRequest(
+    requesterAddress: arc4.Address,
+    round: uint64,
+    options: RandomnessRequestOptions,
+    costsPayment: gtxn.PaymentTxn,
+  ): uint64 {
+    // get caller app id
+    const callerAppId = Global.callerApplicationId
+    // this method should only be callable by app inner txns, accounts use createAccountRequest()
+    assert(callerAppId !== 0, ERR_MUST_BE_CALLED_FROM_APP)
+    // the amount is checked against the costs when the request is stored
+    assertMatch(costsPayment, { receiver: Global.currentApplicationAddress }, ERR_COSTS_PAYMENT_MUST_BE_VALID)
+
+    return this._requestRandomness(
+      callerAppId,
+      requesterAddress,
+      round,
+      options,
+      costsPayment.amount,
+      0,
+      0,
+      1,
+      this._defaultCallback(callerAppId),
+    )
+  }
+
+  /**
+   * Gets the default callback of a requester
+   * @param requesterAppId the application ID of the requester, 0 for account requests
+   * @returns fulfillRandomness or fulfillRandomWords of the requester app
+   */
+  private _defaultCallback(requesterAppId: uint64): RandomnessCallback {
+    return { appId: requesterAppId, selector: new arc4.StaticBytes<4>(op.bzero(4)) }
+  }
+
+  /**
+   * Creates a request delivered to another app, or through a custom method of the requester app
+   * @param requesterAddress who the request is on behalf of?
+   * @param round the round to request the randomness for
+   * @param options the request options, pull mode is not supported
+   * @param callbackAppId the application to call back, e.g. a game logic app behind a front end requester app
+   * @param callbackSelector selector of a method with the fulfillRandomness arguments (uint64,address,byte[64])void,
+   * zero bytes to call fulfillRandomness or fulfillRandomWords as usual
+   * @param costsPayment payment covering txnFees + boxCost
+   * @returns a unique request ID to be used to identify the request
+   * @description access lists, quotas and refunds still apply to the calling app. The callback app must be the
+   * calling app or have approved it with approveCallbackRequester(), it should still only accept the request IDs it
+   * expects
+   */
+  public createRequestWithCallback(
+    requesterAddress: arc4.Address,
+    round: uint64,
+    options: RandomnessRequestOptions,
+    callbackAppId: uint64,
+    callbackSelector: MethodSelector,
+    costsPayment: gtxn.PaymentTxn,
+  ): uint64 {
+    // get caller app id
+    const callerAppId = Global.callerApplicationId
+    // this method should only be callable by app inner txns, accounts use createAccountRequest()
+    assert(callerAppId !== 0, ERR_MUST_BE_CALLED_FROM_APP)
+    assert(callbackAppId !== 0 && callbackAppId !== Global.currentApplicationId.id, ERR_INVALID_CALLBACK_APP)
+    // otherwise any app could make the beacon call any other app, with any method
+    assert(this.isCallbackApproved(callbackAppId, callerAppId), ERR_CALLBACK_NOT_APPROVED)
+    // the output is always called back, a custom method can only receive the 64 byte output
+    assert(
+      !options.pullMode && (callbackSelector.bytes === op.bzero(4) || options.numWords === 0),
+      ERR_CUSTOM_CALLBACK_OPTIONS,
+    )
+    // the amount is checked against the costs when the request is stored
+    assertMatch(costsPayment, { receiver: Global.currentApplicationAddress }, ERR_COSTS_PAYMENT_MUST_BE_VALID)
+
+    return this._requestRandomness(callerAppId, requesterAddress, round, options, costsPayment.amount, 0, 0, 1, {
+      appId: callbackAppId,
+      selector: callbackSelector,
+    })
+  }
+
+  /**
+   * Lets a requester app deliver the outputs of its requests to a callback app
+   * @param callbackAppId the application ID of the callback app
+   * @param requesterAppId the application ID of the requester app
+   * @param mbrPayment payment covering the approval box cost, refunded to the sender revoking it
+   * @description the callback app (calling through an inner txn) or its creator must be the sender
+   */
+  public approveCallbackRequester(callbackAppId: uint64, requesterAppId: uint64, mbrPayment: gtxn.PaymentTxn): void {
+    this._onlyCallbackApp(callbackAppId)
+    const key = this._callbackApprovalKey(callbackAppId, requesterAppId)
+    assert(!this.callbackApprovals(key).exists, ERR_CALLBACK_ALREADY_APPROVED)
+    assertMatch(
+      mbrPayment,
+      {
+        receiver: Global.currentApplicationAddress,
+        amount: { greaterThanEq: this.getCallbackApprovalBoxMbr() },
+      },
+      ERR_CALLBACK_APPROVAL_PAYMENT_MUST_BE_VALID,
+    )
+
+    this.callbackApprovals(key).value = true
+
+    emit<CallbackApprovalUpdated>({ callbackAppId: callbackAppId, requesterAppId: requesterAppId, approved: true })
+  }
+
+  /**
+   * Stops a requester app from creating requests delivered to a callback app
+   * @param callbackAppId the application ID of the callback app
+   * @param requesterAppId the application ID of the requester app
+   * @description pending requests are still delivered, the approval box cost is refunded to the sender
+   */
+  public revokeCallbackRequester(callbackAppId: uint64, requesterAppId: uint64): void {
+    this._onlyCallbackApp(callbackAppId)
+    const key = this._callbackApprovalKey(callbackAppId, requesterAppId)
+    assert(this.callbackApprovals(key).exists, ERR_CALLBACK_NOT_APPROVED)
+
+    this.callbackApprovals(key).delete()
+
+    itxn
+      .payment({
+        receiver: Txn.sender,
+        amount: this.getCallbackApprovalBoxMbr(),
+        note: NOTE_CALLBACK_APPROVAL_BOX_MBR_REFUND,
+        fee: 0,
+      })
+      .submit()
+
+    emit<CallbackApprovalUpdated>({ callbackAppId: callbackAppId, requesterAppId: requesterAppId, approved: false })
+  }
+
+  /**
+   * Creates a request delivering randomness every `interval` rounds, from `round` for `deliveries` deliveries
+   * @param requesterAddress who the request is on behalf of?
+   * @param round the round of the first delivery
+   * @param options the request options, pull mode is not supported
+   * @param interval rounds between deliveries
+   * @param deliveries the number of deliveries, at least 2
+   * @param costsPayment payment covering the costs of every delivery, see getRecurringCosts()
+   * @returns a unique request ID, the same for every delivery
+   * @description the request keeps its box between deliveries, only the first round is checked against
+   * maxFutureRounds. Cancelling refunds the costs of the remaining deliveries
+   */
+  public createRecurringRequest(
+    requesterAddress: arc4.Address,
+    round: uint64,
+    options: RandomnessRequestOptions,
+    interval: uint64,
+    deliveries: uint64,
+    costsPayment: gtxn.PaymentTxn,
+  ): uint64 {
+    // get caller app id
+    const callerAppId = Global.callerApplicationId
+    // every delivery is a callback to the requester app
+    assert(callerAppId !== 0, ERR_MUST_BE_CALLED_FROM_APP)
+    assert(interval > 0 && deliveries > 1, ERR_INVALID_RECURRENCE)
+    // a single result box cannot hold the outputs of many deliveries
+    assert(!options.pullMode, ERR_RECURRING_PULL_MODE)
+    // the amount is checked against the costs when the request is stored
+    assertMatch(costsPayment, { receiver: Global.currentApplicationAddress }, ERR_COSTS_PAYMENT_MUST_BE_VALID)
+
+    return this._requestRandomness(
+      callerAppId,
+      requesterAddress,
+      round,
+      options,
+      costsPayment.amount,
+      0,
+      interval,
+      deliveries,
+      this._defaultCallback(callerAppId),
+    )
+  }
+
+  /**
+   * Creates a request on behalf of the sender, for wallets and off-chain services without a requester app
+   * @param round the round to request the randomness for
+   * @param options the request options, pullMode must be set
+   * @param costsPayment payment covering txnFees + boxCost + resultBoxCost
+   * @returns a unique request ID to be used to identify the request
+   * @description there is no app to call back, the output is stored in a result box for the sender to claim
+   */
+  public createAccountRequest(round: uint64, options: RandomnessRequestOptions, costsPayment: gtxn.PaymentTxn): uint64 {
+    // the output can only be kept for the sender to claim
+    assert(options.pullMode, ERR_ACCOUNT_REQUEST_MUST_USE_PULL_MODE)
+    // the amount is checked against the costs when the request is stored
+    assertMatch(costsPayment, { receiver: Global.currentApplicationAddress }, ERR_COSTS_PAYMENT_MUST_BE_VALID)
+
+    // no requester app, the sender is the requester
+    return this._requestRandomness(
+      0,
+      new arc4.Address(Txn.sender),
+      round,
+      options,
+      costsPayment.amount,
+      0,
+      0,
+      1,
+      this._defaultCallback(0),
+    )
+  }
+
+  /**
+   * Creates a request paid from the subscription the calling app is registered to
+   * @param requesterAddress who the request is on behalf of?
+   * @param round the round to request the randomness for
+   * @param options the request options, see RandomnessRequestOptions
+   * @returns a unique request ID to be used to identify the request
+   * @description the exact costs are debited from the subscription balance, refunds are credited back to it
+   */
+  public createSubscriptionRequest(
+    requesterAddress: arc4.Address,
+    round: uint64,
+    options: RandomnessRequestOptions,
+  ): uint64 {
+    // get caller app id
+    const callerAppId = Global.callerApplicationId
+    // only apps can be registered as consumers
+    assert(callerAppId !== 0, ERR_MUST_BE_CALLED_FROM_APP)
+    assert(this.consumers(callerAppId).exists, ERR_CONSUMER_NOT_REGISTERED)
+
+    const subscriptionId = this.consumers(callerAppId).value
+    const totalCosts = this._sumCosts(this.getCosts(options))
+    // debit the subscription, nothing above the costs is paid
+    this._debitSubscription(subscriptionId, totalCosts)
+
+    return this._requestRandomness(
+      callerAppId,
+      requesterAddress,
+      round,
+      options,
+      totalCosts,
+      subscriptionId,
+      0,
+      1,
+      this._defaultCallback(callerAppId),
+    )
+  }
+
+  /**
+   * Creates a subscription owned by the sender
+   * @param payment payment covering the subscription box cost, the rest is deposited to its balance
+   * @returns the ID of the new subscription
+   */
+  public createSubscription(payment: gtxn.PaymentTxn): uint64 {
+    const { boxMbr } = this.getSubscriptionCosts()
+    assertMatch(
+      payment,
+      {
+        receiver: Global.currentApplicationAddress,
+        amount: { greaterThanEq: boxMbr },
+      },
+      ERR_DEPOSIT_PAYMENT_MUST_BE_VALID,
+    )
+
+    const subscriptionId = this.nextSubscriptionId.value
+    this.nextSubscriptionId.value += 1
+
+    const owner = new arc4.Address(Txn.sender)
+    this.subscriptions(subscriptionId).value = {
+      owner: owner,
+      balance: 0,
+      boxMbr: boxMbr,
+      pendingRequests: 0,
+      consumers: 0,
+    }
+    this.openSubscriptions.value += 1
+    this._creditSubscription(subscriptionId, payment.amount - boxMbr)
+
+    emit<SubscriptionCreated>({ subscriptionId: subscriptionId, owner: owner })
+
+    return subscriptionId
+  }
+
+  /**
+   * Deposits funds to a subscription, anyone can fund any subscription
+   * @param subscriptionId the ID of the subscription
+   * @param payment payment of the amount to deposit
+   */
+  public deposit(subscriptionId: uint64, payment: gtxn.PaymentTxn): void {
+    assertMatch(payment, { receiver: Global.currentApplicationAddress }, ERR_DEPOSIT_PAYMENT_MUST_BE_VALID)
+
+    this._creditSubscription(subscriptionId, payment.amount)
+
+    emit<SubscriptionDeposited>({ subscriptionId: subscriptionId, amount: payment.amount })
+  }
+
+  /**
+   * Withdraws funds from a subscription to its owner
+   * @param subscriptionId the ID of the subscription
+   * @param amount the amount to withdraw
+   */
+  public withdraw(subscriptionId: uint64, amount: uint64): void {
+    this._onlySubscriptionOwner(subscriptionId)
+    this._debitSubscription(subscriptionId, amount)
+
+    itxn
+      .payment({
+        receiver: this.subscriptions(subscriptionId).value.owner.native,
+        amount: amount,
+        note: NOTE_SUBSCRIPTION_WITHDRAWAL,
+        fee: 0,
+      })
+      .submit()
+
+    emit<SubscriptionWithdrawn>({ subscriptionId: subscriptionId, amount: amount })
+  }
+
+  /**
+   * Closes a subscription, refunding its balance and box cost to the owner
+   * @param subscriptionId the ID of the subscription
+   * @description its consumers must be removed and its requests fulfilled or cancelled first, so nothing is left
+   * paying from or refunding to it
+   */
+  public closeSubscription(subscriptionId: uint64): void {
+    this._onlySubscriptionOwner(subscriptionId)
+    const subscription = clone(this.subscriptions(subscriptionId).value)
+    assert(subscription.pendingRequests === 0, ERR_SUBSCRIPTION_HAS_PENDING_REQUESTS)
+    assert(subscription.consumers === 0, ERR_SUBSCRIPTION_HAS_CONSUMERS)
+
+    this._debitSubscription(subscriptionId, subscription.balance)
+    this.subscriptions(subscriptionId).delete()
+    this.openSubscriptions.value -= 1
+
+    const amount: uint64 = subscription.balance + subscription.boxMbr
+    itxn
+      .payment({
+        receiver: subscription.owner.native,
+        amount: amount,
+        note: NOTE_SUBSCRIPTION_CLOSE_REFUND,
+        fee: 0,
+      })
+      .submit()
+
+    emit<SubscriptionClosed>({ subscriptionId: subscriptionId, amount: amount })
+  }
+
+  /**
+   * Registers an app whose requests are paid from the subscription
+   * @param subscriptionId the ID of the subscription
+   * @param consumerAppId the application ID of the consumer
+   * @description the consumer box cost is debited from the subscription balance, an app can only consume one
+   * subscription. The consumer app (calling through an inner txn) or its creator must be the sender, an app cannot be
+   * registered to a subscription it did not agree to
+   */
+  public addConsumer(subscriptionId: uint64, consumerAppId: uint64): void {
+    this._onlySubscriptionOwner(subscriptionId)
+    // otherwise anyone could claim an app first, blocking its own subscription or paying for its requests
+    assert(
+      Global.callerApplicationId === consumerAppId || Application(consumerAppId).creator === Txn.sender,
+      ERR_CONSUMER_MUST_CONSENT,
+    )
+    assert(!this.consumers(consumerAppId).exists, ERR_CONSUMER_ALREADY_REGISTERED)
+
+    this._debitSubscription(subscriptionId, this.getSubscriptionCosts().consumerBoxMbr)
+
+    this.consumers(consumerAppId).value = subscriptionId
+    this.subscriptions(subscriptionId).value.consumers += 1
+
+    emit<ConsumerAdded>({ subscriptionId: subscriptionId, consumerAppId: consumerAppId })
+  }
+
+  /**
+   * Removes a consumer app from the subscription
+   * @param subscriptionId the ID of the subscription
+   * @param consumerAppId the application ID of the consumer
+   * @description the consumer box cost is credited back, pending requests of the consumer are still refunded to the
+   * subscription
+   */
+  public removeConsumer(subscriptionId: uint64, consumerAppId: uint64): void {
+    this._onlySubscriptionOwner(subscriptionId)
+    assert(
+      this.consumers(consumerAppId).exists && this.consumers(consumerAppId).value === subscriptionId,
+      ERR_CONSUMER_NOT_REGISTERED,
+    )
+
+    this.consumers(consumerAppId).delete()
+    this.subscriptions(subscriptionId).value.consumers -= 1
+    this._creditSubscription(subscriptionId, this.getSubscriptionCosts().consumerBoxMbr)
+
+    emit<ConsumerRemoved>({ subscriptionId: subscriptionId, consumerAppId: consumerAppId })
+  }
+
+  /**
+   * Cancels a request, refunding its costs
+   * @param requestId the ID of the VRF request
+   * @description the requester (app or address) can cancel before the target round, or a recurring request at any
+   * time, anyone can cancel a stale request and is paid the cost of the cancellation from the refund
+   */
   public cancelRequest(requestId: uint64): void {
+    this.whenNotPaused(PAUSE_SCOPE_CANCELLATION)
     // get value from the box
     const request: RandomnessRequest = clone(this.requests(requestId).value)
-    // cannot cancel until >= (request.round + staleRequestTimeout)
-    assert(Global.round > request.round + this.staleRequestTimeout.value, ERR_REQUEST_MUST_BE_STALE)
+    const isRequester: boolean =
+      request.requesterAddress.native === Txn.sender ||
+      (request.requesterAppId !== 0 && Global.callerApplicationId === request.requesterAppId)
+
+    const isStale: boolean = Global.round > request.round + this.staleRequestTimeout.value
+    if (!isStale && (Global.round < request.round || request.interval > 0)) {
+      // the requester can back out before the target round, e.g. an aborted game, or stop a recurring request at any time
+      assert(isRequester, ERR_MUST_BE_REQUESTER)
+    } else {
+      // cannot cancel until >= (request.round + staleRequestTimeout)
+      assert(isStale, ERR_REQUEST_MUST_BE_STALE)
+    }
 
-    let amountToRefund: uint64 = request.costs.boxMbr + request.costs.fees
+    // a recurring request is refunded the costs of every remaining delivery
+    let amountToRefund: uint64 = this._sumPrepaidCosts(request.costs, request.remainingDeliveries) + request.overpayment
+
+    // the operator failed to fulfill the request, the requester is compensated from the bond with the refund
+    if (isStale && request.stalePenalty > 0) {
+      this.bond.value -= request.stalePenalty
+      amountToRefund += request.stalePenalty
+
+      emit<StalePenaltyPaid>({
+        requestId: requestId,
+        requesterAddress: request.requesterAddress,
+        amount: request.stalePenalty,
+      })
+    }
 
     // if the caller is not the requester, pay them the cost of cancellation
-    if (request.requesterAddress.native !== Txn.sender) {
+    if (!isRequester) {
       // 1 app call
       // 2 itxn 1 (caller receiving fees)
       // 3 itxn 2 (mbr refund/remaining fees to requester)
@@ -263,15 +1516,13 @@ export class RandomnessBeacon extends classes(Managable, Pausable) implements ar
         .submit()
     }
 
-    // refund the box cost fee paid to the requester
-    itxn
-      .payment({
-        receiver: request.requesterAddress.native,
-        amount: amountToRefund,
-        note: NOTE_BOX_MBR_REFUND, // TODO: make a new note that explains this better
-        fee: 0, // force group to cover it
-      })
-      .submit()
+    // record the cancellation, the first cancelled request of a page pays for it (priced in getCosts())
+    if (this._markCancelled(requestId)) {
+      amountToRefund -= this.getCancelledPageBoxMbr()
+    }
+
+    // refund the remaining costs and any overpayment to the requester
+    this._refund(request.subscriptionId, request.requesterAddress, amountToRefund, NOTE_CANCELLATION_REFUND)
 
     // emit cancelled event
     emit<RequestCancelled>({
@@ -284,83 +1535,1249 @@ export class RandomnessBeacon extends classes(Managable, Pausable) implements ar
   }
 
   /**
-   *
+   * Stores the verified VRF output of a round in the public archive
+   * @param round the round of the VRF output
+   * @param vrfOutput the verified VRF output of the round
+   * @param payer the address that paid for the archive box
+   * @param boxMbr the archive box cost paid by the payer
+   * @param subscriptionId the subscription the box cost was debited from, 0 if paid by the payer
+   */
+  private _archiveRandomness(
+    round: uint64,
+    vrfOutput: VrfOutput,
+    payer: arc4.Address,
+    boxMbr: uint64,
+    subscriptionId: uint64,
+  ): void {
+    this.archive(round).value = {
+      vrfOutput: vrfOutput,
+      archivedAt: Global.round,
+      payer: payer,
+      boxMbr: boxMbr,
+      subscriptionId: subscriptionId,
+    }
+
+    emit<RandomnessArchived>({
+      round: round,
+      vrfOutput: vrfOutput,
+      payer: payer,
+    })
+  }
+
+  /**
+   * Fulfills a pending request with a verified VRF output
    * @param requestId the ID of the VRF request
-   * @param proof the VRF proof output using the `targetRound` block seed of the targeted RandomnessBeaconRequest
+   * @param vrfOutput the verified VRF output of the request round
+   * @param paysVerification true if the request pays for the vrf_verify budget of the call, the other requests of
+   * a batch are refunded their share
+   * @param verifiedWithPreviousKey true if the proof was verified with the previous public key, the request paying
+   * for the verification then spends its previousKeyVerifyFee
+   * @description calls back the requester app (or stores the output for pull mode requests),
+   * reimburses the caller and refunds the box cost
    */
-  public completeRequest(requestId: uint64, proof: VrfProof): void {
-    // only allow the manager to call, they should be only one with access to private key
-    this.onlyManager()
+  private _fulfillRequest(
+    requestId: uint64,
+    vrfOutput: VrfOutput,
+    paysVerification: boolean,
+    verifiedWithPreviousKey: boolean,
+  ): void {
     // get request from the box
     const request: RandomnessRequest = clone(this.requests(requestId).value)
-    // get block seed of the target round
-    const blockSeed = op.Block.blkSeed(request.round)
-    // increase opcode budget using app account balance (should be pre-funded by the caller to cover this cost)
-    ensureBudget(5700, OpUpFeeSource.GroupCredit)
-    // verify vrf proof
-    const [output, verified] = op.vrfVerify(VrfVerify.VrfAlgorand, blockSeed, proof, this.publicKey.value)
-    // must be verified
-    assert(verified, ERR_PROOF_MUST_BE_VALID)
+    // the proof is verified once per call
+    let verificationRefund: uint64 = 0
+    if (!paysVerification) {
+      verificationRefund = Global.minTxnFee * VRF_VERIFY_TXNS
+    }
+    // the second vrf_verify is only spent by the request paying for a proof of the previous key
+    if (!paysVerification || !verifiedWithPreviousKey) {
+      verificationRefund += request.costs.previousKeyVerifyFee
+    }
+    // capped in case the min txn fee went up since the request was created
+    if (verificationRefund > request.costs.fees) {
+      verificationRefund = request.costs.fees
+    }
+    // mix the request into the round output, so requests of the same round get distinct outputs
+    const output = this._deriveRequestOutput(requestId, request, vrfOutput)
 
-    const r = arc4.abiCall<typeof RandomnessBeaconRequesterStub.prototype.fulfillRandomness>({
-      appId: request.requesterAppId,
-      args: [requestId, request.requesterAddress, output],
-      fee: 0,
-    })
+    if (request.options.pullMode) {
+      // keep the output for the requester to claim, the result box cost was paid with the request
+      this.results(requestId).value = {
+        requesterAppId: request.requesterAppId,
+        requesterAddress: request.requesterAddress,
+        output: output,
+        boxMbr: request.costs.resultBoxMbr,
+        subscriptionId: request.subscriptionId,
+      }
+
+      emit<RandomnessStored>({
+        requestId: requestId,
+        requesterAppId: request.requesterAppId,
+        requesterAddress: request.requesterAddress,
+      })
+    } else if (request.callback.selector.bytes !== op.bzero(4)) {
+      // a custom method with the fulfillRandomness arguments
+      itxn
+        .applicationCall({
+          appId: request.callback.appId,
+          appArgs: [request.callback.selector.bytes, op.itob(requestId), request.requesterAddress.bytes, output],
+          // paid from the requester funds, 0 leaves it to the group (caller covers it)
+          fee: request.costs.callbackFee,
+        })
+        .submit()
+    } else if (request.options.numWords === 0) {
+      arc4.abiCall<typeof RandomnessBeaconRequesterStub.prototype.fulfillRandomness>({
+        appId: request.callback.appId,
+        args: [requestId, request.requesterAddress, output],
+        // paid from the requester funds, 0 leaves it to the group (caller covers it)
+        fee: request.costs.callbackFee,
+      })
+    } else {
+      arc4.abiCall<typeof RandomnessBeaconRequesterStub.prototype.fulfillRandomWords>({
+        appId: request.callback.appId,
+        args: [requestId, request.requesterAddress, this._expandRandomWords(output, request.options.numWords)],
+        // paid from the requester funds, 0 leaves it to the group (caller covers it)
+        fee: request.costs.callbackFee,
+      })
+    }
+
+    // the request is served, the premium is earned
+    this.treasury.value += request.costs.premium
 
     // refund feePaid to the Caller so they get reembursed (as they paid the fees for this group)
     itxn
       .payment({
         receiver: Txn.sender,
-        amount: request.costs.fees,
+        amount: request.costs.fees - verificationRefund,
         note: NOTE_FEES_PAYMENT,
         fee: 0,
       })
       .submit()
 
+    // a recurring request keeps its box until its last delivery
+    const isLastDelivery = request.remainingDeliveries === 1
+    // the request box cost is refunded with the last delivery, the archive box cost when the round was already archived
+    let amountToRefund: uint64 = isLastDelivery ? request.costs.boxMbr : 0
+    // unused verification fees are returned with the box refund
+    amountToRefund += verificationRefund
+    if (request.options.archive) {
+      if (this.archive(request.round).exists) {
+        amountToRefund += request.costs.archiveBoxMbr
+      } else {
+        this._archiveRandomness(
+          request.round,
+          vrfOutput,
+          request.requesterAddress,
+          request.costs.archiveBoxMbr,
+          request.subscriptionId,
+        )
+      }
+    }
+
     // refund the box cost fee paid to the Requester (can differ from the Caller who receives the fees)
-    itxn
-      .payment({
-        receiver: request.requesterAddress.native,
-        amount: request.costs.boxMbr,
-        note: NOTE_BOX_MBR_REFUND,
-        fee: 0,
-      })
-      .submit()
+    // an overpayment or unused verification fees are returned in the same payment, the fee schedule of the caller
+    // has no room for another itxn
+    if (!isLastDelivery) {
+      if (verificationRefund > 0) {
+        this._refund(request.subscriptionId, request.requesterAddress, amountToRefund, NOTE_VERIFICATION_FEES_REFUND)
+      } else if (amountToRefund > 0) {
+        this._refund(request.subscriptionId, request.requesterAddress, amountToRefund, NOTE_ARCHIVE_BOX_MBR_REFUND)
+      }
+    } else if (request.overpayment > 0 || verificationRefund > 0) {
+      this._refund(
+        request.subscriptionId,
+        request.requesterAddress,
+        amountToRefund + request.overpayment,
+        NOTE_OVERPAYMENT_REFUND,
+      )
+    } else {
+      this._refund(request.subscriptionId, request.requesterAddress, amountToRefund, NOTE_BOX_MBR_REFUND)
+    }
 
     // emit fulfilled event
     emit<RequestFulfilled>({
       requestId: requestId,
       requesterAppId: request.requesterAppId,
       requesterAddress: request.requesterAddress,
-      vrfOutput: output,
+      vrfOutput: vrfOutput,
+      salt: request.options.salt,
     })
 
-    // delete the box
-    this._deleteRequest(requestId)
+    if (isLastDelivery) {
+      // delete the box
+      this._deleteRequest(requestId)
+      return
+    }
+
+    // schedule the next delivery in the same box, a late completion must not schedule it in the past
+    const scheduledRound: uint64 = request.round + request.interval
+    const nextRound: uint64 = scheduledRound > Global.round ? scheduledRound : Global.round + 1
+    this.requests(requestId).value.round = nextRound
+    this._removeRoundRequest(request.round)
+    this._addRoundRequest(nextRound)
+    this.requests(requestId).value.remainingDeliveries = request.remainingDeliveries - 1
+
+    emit<RequestRescheduled>({
+      requestId: requestId,
+      round: nextRound,
+      remainingDeliveries: request.remainingDeliveries - 1,
+    })
   }
 
   /**
-   *
-   * Convenience function to get associated costs with using the beacon service
-   * @returns RandomnessRequestCosts object containing fees and boxMbr costs
+   * Stops a requester app from creating requests, its pending requests can still be completed and cancelled
+   * @param requesterAppId the application ID of the requester, 0 for account requests
+   * @param mbrPayment payment covering the box cost, refunded to the pauser on unpause
+   */
+  public pauseRequester(requesterAppId: uint64, mbrPayment: gtxn.PaymentTxn): void {
+    this.onlyPauser()
+    assert(!this.pausedRequesters(requesterAppId).exists, ERR_REQUESTER_ALREADY_PAUSED)
+    assertMatch(
+      mbrPayment,
+      {
+        receiver: Global.currentApplicationAddress,
+        amount: { greaterThanEq: this.getPausedRequesterBoxMbr() },
+      },
+      ERR_PAUSE_PAYMENT_MUST_BE_VALID,
+    )
+
+    this.pausedRequesters(requesterAppId).value = true
+
+    emit<RequesterPaused>({ pauser: this.pauser(), requesterAppId: requesterAppId })
+  }
+
+  /**
+   * Lets a paused requester app create requests again
+   * @param requesterAppId the application ID of the requester, 0 for account requests
+   */
+  public unpauseRequester(requesterAppId: uint64): void {
+    this.onlyPauser()
+    assert(this.pausedRequesters(requesterAppId).exists, ERR_REQUESTER_NOT_PAUSED)
+
+    this.pausedRequesters(requesterAppId).delete()
+
+    itxn
+      .payment({
+        receiver: Txn.sender,
+        amount: this.getPausedRequesterBoxMbr(),
+        note: NOTE_PAUSE_BOX_MBR_REFUND,
+        fee: 0,
+      })
+      .submit()
+
+    emit<RequesterUnpaused>({ pauser: this.pauser(), requesterAppId: requesterAppId })
+  }
+
+  /**
+   * Checks if request creation is paused
+   * @returns true if no request can be created
    */
   @readonly
-  public getCosts(): RandomnessRequestCosts {
-    // 8x the normal txn budget to use vrf_verify alone
-    // 2 inner txns, fees to caller and box refund to requeste
-    // 1x app call txn (base external txn)
-    // 1x app call itxn to call fulfillRandomness (from Beacon app)
-    // ... if there is any more fees, user should cover them (potential)
-    // 0.012 * minTxnFee base cost from the ap
-    const numRequiredTxns: uint64 = 8 + 2 + 1 + 1
-    // work out required fee
-    const txnFees: uint64 = Global.minTxnFee * numRequiredTxns
-    const keySize: uint64 = this.requests.keyPrefix.length + arc4.sizeOf<uint64>() /* size of uint64 in bytes = 8 */
-    const boxSize: uint64 = arc4.sizeOf<RandomnessRequest>()
+  public isCreationPaused(): boolean {
+    return this.isScopePaused(PAUSE_SCOPE_CREATION)
+  }
 
-    const boxMbr: uint64 = BOX_CREATE_COST + BOX_BYTE_COST * (keySize + boxSize)
+  /**
+   * Checks if request fulfillment is paused
+   * @returns true if no request can be completed
+   */
+  @readonly
+  public isFulfillmentPaused(): boolean {
+    return this.isScopePaused(PAUSE_SCOPE_FULFILLMENT)
+  }
+
+  /**
+   * Checks if request cancellation is paused
+   * @returns true if no request can be cancelled
+   */
+  @readonly
+  public isCancellationPaused(): boolean {
+    return this.isScopePaused(PAUSE_SCOPE_CANCELLATION)
+  }
+
+  /**
+   * Checks if a requester app is paused
+   * @param requesterAppId the application ID of the requester, 0 for account requests
+   * @returns true if the requester app cannot create requests
+   */
+  @readonly
+  public isRequesterPaused(requesterAppId: uint64): boolean {
+    return this.pausedRequesters(requesterAppId).exists
+  }
+
+  /**
+   * Authorises an address to complete requests
+   * @param fulfiller the fulfiller address, usually the daemon
+   * @param mbrPayment payment covering the fulfiller box cost, refunded to the manager on removal
+   */
+  public addFulfiller(fulfiller: arc4.Address, mbrPayment: gtxn.PaymentTxn): void {
+    this.onlyManager()
+    assertMatch(
+      mbrPayment,
+      {
+        receiver: Global.currentApplicationAddress,
+        amount: { greaterThanEq: this.getFulfillerBoxMbr() },
+      },
+      ERR_FULFILLER_PAYMENT_MUST_BE_VALID,
+    )
+
+    this.grantFulfiller(fulfiller.native)
+  }
+
+  /**
+   * Stops an address from completing requests
+   * @param fulfiller the fulfiller address
+   */
+  public removeFulfiller(fulfiller: arc4.Address): void {
+    this.onlyManager()
+
+    this.revokeFulfiller(fulfiller.native)
+
+    itxn
+      .payment({
+        receiver: this.manager().native,
+        amount: this.getFulfillerBoxMbr(),
+        note: NOTE_FULFILLER_BOX_MBR_REFUND,
+        fee: 0,
+      })
+      .submit()
+  }
+
+  /**
+   *
+   * @param requestId the ID of the VRF request
+   * @param proof the VRF proof output using the `targetRound` block seed of the targeted RandomnessBeaconRequest
+   */
+  public completeRequest(requestId: uint64, proof: VrfProof): void {
+    // only allow fulfillers to call, they should be only ones with access to private key
+    this.onlyFulfiller()
+    this.whenNotPaused(PAUSE_SCOPE_FULFILLMENT)
+    // a single key must not be able to bypass the operator threshold
+    assert(this.operatorThreshold.value === 0, ERR_MULTI_OPERATOR_MODE)
+    // verify the proof against the target round block seed
+    const [output, verifiedWithPreviousKey] = this._verifyProof(this.requests(requestId).value.round, proof)
+
+    this._fulfillRequest(requestId, output, true, verifiedWithPreviousKey)
+  }
+
+  /**
+   * Completes many requests targeting the same round with a single proof
+   * @param round the round all of the requests target
+   * @param requestIds the IDs of the VRF requests, fulfilled in order
+   * @param proof the VRF proof output using the `round` block seed
+   */
+  public completeRequests(round: uint64, requestIds: uint64[], proof: VrfProof): void {
+    // only allow fulfillers to call, they should be only ones with access to private key
+    this.onlyFulfiller()
+    this.whenNotPaused(PAUSE_SCOPE_FULFILLMENT)
+    // a single key must not be able to bypass the operator threshold
+    assert(this.operatorThreshold.value === 0, ERR_MULTI_OPERATOR_MODE)
+    // nothing to complete
+    assert(requestIds.length > 0, ERR_NO_REQUEST_IDS)
+    // verify once, the output is the same for every request of this round
+    const [output, verifiedWithPreviousKey] = this._verifyProof(round, proof)
+
+    // the first request pays for the verification, the others are refunded their share
+    let paysVerification = true
+    for (const requestId of requestIds) {
+      // the proof is only valid for requests targeting this round
+      assert(this.requests(requestId).value.round === round, ERR_REQUEST_ROUND_MISMATCH)
+
+      this._fulfillRequest(requestId, output, paysVerification, verifiedWithPreviousKey)
+      paysVerification = false
+    }
+  }
+
+  /**
+   * Registers a k-of-n operator
+   * @param operator the operator address, usually its daemon
+   * @param publicKey the public key used to verify the proofs of the operator
+   * @param mbrPayment payment covering the operator box cost, refunded to the manager on removal
+   */
+  public addOperator(operator: arc4.Address, publicKey: VrfPublicKey, mbrPayment: gtxn.PaymentTxn): void {
+    this.onlyManager()
+    // the operators of a scheduled round must not change
+    assert(this.totalPendingRequests.value === 0, ERR_OPERATORS_LOCKED)
+    assert(!this.operators(operator.native).exists, ERR_ALREADY_OPERATOR)
+    assert(this.operatorCount.value < MAX_OPERATORS, ERR_MAX_OPERATORS)
+    assertMatch(
+      mbrPayment,
+      {
+        receiver: Global.currentApplicationAddress,
+        amount: { greaterThanEq: this.getOperatorBoxMbr() },
+      },
+      ERR_OPERATOR_PAYMENT_MUST_BE_VALID,
+    )
+
+    // take the lowest free index
+    let index: uint64 = 0
+    while (op.getBit(this.operatorIndexes.value, index)) {
+      index++
+    }
+    this.operatorIndexes.value = op.setBit(this.operatorIndexes.value, index, 1)
+    this.operatorCount.value += 1
+    this.operators(operator.native).value = { index: index, publicKey: publicKey }
+
+    emit<OperatorAdded>({ operator: operator, index: index, publicKey: publicKey })
+  }
+
+  /**
+   * Removes a k-of-n operator
+   * @param operator the operator address
+   * @description proofs it already submitted still count, the threshold must stay reachable without it. Requests
+   * must not be pending, as for addOperator()
+   */
+  public removeOperator(operator: arc4.Address): void {
+    this.onlyManager()
+    assert(this.totalPendingRequests.value === 0, ERR_OPERATORS_LOCKED)
+    const index = this.operators(operator.native).value.index
+    assert(this.operatorCount.value - 1 >= this.operatorThreshold.value, ERR_INVALID_OPERATOR_THRESHOLD)
+
+    this.operatorIndexes.value = op.setBit(this.operatorIndexes.value, index, 0)
+    this.operatorCount.value -= 1
+    this.operators(operator.native).delete()
+
+    itxn
+      .payment({
+        receiver: this.manager().native,
+        amount: this.getOperatorBoxMbr(),
+        note: NOTE_OPERATOR_BOX_MBR_REFUND,
+        fee: 0,
+      })
+      .submit()
+
+    emit<OperatorRemoved>({ operator: operator })
+  }
+
+  /**
+   * Sets the number of operator proofs combined into a round output
+   * @param operatorThreshold k of the k-of-n mode, up to the number of operators, 0 to verify a single proof
+   * against publicKey with completeRequest()
+   * @description requests must not be pending, as for addOperator()
+   */
+  public setOperatorThreshold(operatorThreshold: uint64): void {
+    this.onlyManager()
+    assert(this.totalPendingRequests.value === 0, ERR_OPERATORS_LOCKED)
+    assert(operatorThreshold <= this.operatorCount.value, ERR_INVALID_OPERATOR_THRESHOLD)
+
+    const previousOperatorThreshold = this.operatorThreshold.value
+    this.operatorThreshold.value = operatorThreshold
+
+    emit<OperatorThresholdUpdated>({
+      previousOperatorThreshold: previousOperatorThreshold,
+      operatorThreshold: operatorThreshold,
+    })
+  }
+
+  /**
+   * Checks if a round has enough operator proofs for its output to be final
+   * @param round the round
+   * @returns true if the threshold of the round was reached
+   */
+  private _isRoundAggregated(round: uint64): boolean {
+    return (
+      this.submissions(round).exists && this.submissions(round).value.count === this.submissions(round).value.threshold
+    )
+  }
+
+  /**
+   * Submits the proof of an operator for a round, the proof completing the threshold fulfills requests too
+   * @param round the round whose block seed was proven
+   * @param proof the VRF proof of the operator using the `round` block seed
+   * @param requestIds the IDs of VRF requests of the round to fulfill if this proof completes the threshold,
+   * must be empty otherwise
+   * @param mbrPayment payment covering the submissions box cost for the first proof of the round, 0 afterwards,
+   * refunded to the payer when pruned
+   * @description the round output is the xor of the verified outputs of the first k operators to submit, any k of
+   * the n operators. An operator withholding its proof is replaced by the next one to submit
+   */
+  public submitProof(round: uint64, proof: VrfProof, requestIds: uint64[], mbrPayment: gtxn.PaymentTxn): void {
+    this.whenNotPaused(PAUSE_SCOPE_FULFILLMENT)
+    assert(this.operatorThreshold.value > 0, ERR_SINGLE_OPERATOR_MODE)
+    assert(this.operators(Txn.sender).exists, ERR_ONLY_OPERATOR)
+    assert(!this._isRoundAggregated(round), ERR_ROUND_ALREADY_AGGREGATED)
+    const operator = clone(this.operators(Txn.sender).value)
+
+    // increase opcode budget using app account balance (should be pre-funded by the caller to cover this cost)
+    ensureBudget(5700, OpUpFeeSource.GroupCredit)
+    // verify vrf proof against the public key of the operator
+    const [output, verified] = op.vrfVerify(VrfVerify.VrfAlgorand, op.Block.blkSeed(round), proof, operator.publicKey)
+    assert(verified, ERR_PROOF_MUST_BE_VALID)
+
+    if (this.submissions(round).exists) {
+      const submissions = clone(this.submissions(round).value)
+      assert(!op.getBit(submissions.operators, operator.index), ERR_ALREADY_SUBMITTED)
+      // the box is already paid for, nothing is sent to the app
+      assertMatch(
+        mbrPayment,
+        { receiver: Global.currentApplicationAddress, amount: 0 },
+        ERR_SUBMISSION_PAYMENT_MUST_BE_VALID,
+      )
+
+      this.submissions(round).value = {
+        threshold: submissions.threshold,
+        operators: op.setBit(submissions.operators, operator.index, 1),
+        count: submissions.count + 1,
+        output: submissions.output.bitwiseXor(output).toFixed({ length: 64 }),
+        payer: submissions.payer,
+        boxMbr: submissions.boxMbr,
+      }
+    } else {
+      // the first proof of the round pays for the submissions box
+      const boxMbr = this.getSubmissionsBoxMbr()
+      assertMatch(
+        mbrPayment,
+        {
+          receiver: Global.currentApplicationAddress,
+          amount: { greaterThanEq: boxMbr },
+        },
+        ERR_SUBMISSION_PAYMENT_MUST_BE_VALID,
+      )
+
+      this.submissions(round).value = {
+        threshold: this.operatorThreshold.value,
+        operators: op.setBit(0, operator.index, 1),
+        count: 1,
+        output: output,
+        payer: new arc4.Address(Txn.sender),
+        boxMbr: boxMbr,
+      }
+    }
+
+    const count = this.submissions(round).value.count
+    emit<ProofSubmitted>({ round: round, operator: new arc4.Address(Txn.sender), count: count })
+
+    if (!this._isRoundAggregated(round)) {
+      assert(requestIds.length === 0, ERR_ROUND_NOT_AGGREGATED)
+      return
+    }
+
+    const roundOutput = this.submissions(round).value.output
+    emit<RoundAggregated>({ round: round, vrfOutput: roundOutput })
+
+    // the first request pays for the verification of this proof, the others are refunded their share
+    let paysVerification = true
+    for (const requestId of requestIds) {
+      // the output is only valid for requests targeting this round
+      assert(this.requests(requestId).value.round === round, ERR_REQUEST_ROUND_MISMATCH)
+
+      this._fulfillRequest(requestId, roundOutput, paysVerification, false)
+      paysVerification = false
+    }
+  }
+
+  /**
+   * Completes requests of a round whose operator proofs already reached the threshold
+   * @param round the round all of the requests target
+   * @param requestIds the IDs of the VRF requests, fulfilled in order
+   */
+  public completeAggregatedRequests(round: uint64, requestIds: uint64[]): void {
+    this.whenNotPaused(PAUSE_SCOPE_FULFILLMENT)
+    assert(this.operators(Txn.sender).exists, ERR_ONLY_OPERATOR)
+    assert(requestIds.length > 0, ERR_NO_REQUEST_IDS)
+    assert(this._isRoundAggregated(round), ERR_ROUND_NOT_AGGREGATED)
+
+    const roundOutput = this.submissions(round).value.output
+    for (const requestId of requestIds) {
+      // the output is only valid for requests targeting this round
+      assert(this.requests(requestId).value.round === round, ERR_REQUEST_ROUND_MISMATCH)
+
+      // no proof is verified, every request is refunded its share of the verification
+      this._fulfillRequest(requestId, roundOutput, false, false)
+    }
+  }
+
+  /**
+   * Prunes the operator proofs of a round once its block seed is out of reach
+   * @param round the round
+   * @description anyone can prune, the submissions box cost is refunded to the operator that paid for it.
+   * No proof of the round can be verified anymore, so its output cannot be rebuilt from other proofs. The output of
+   * an aggregated round is kept until its requests are completed or cancelled, the others can only be cancelled
+   */
+  public pruneSubmissions(round: uint64): void {
+    const submissions = clone(this.submissions(round).value)
+    assert(Global.round > round + BLOCK_SEED_LOOKBACK, ERR_SUBMISSIONS_NOT_EXPIRED)
+    assert(!this._isRoundAggregated(round) || !this.roundRequests(round).exists, ERR_ROUND_HAS_PENDING_REQUESTS)
+
+    this.submissions(round).delete()
+
+    itxn
+      .payment({
+        receiver: submissions.payer.native,
+        amount: submissions.boxMbr,
+        note: NOTE_SUBMISSIONS_BOX_MBR_REFUND,
+        fee: 0,
+      })
+      .submit()
+  }
+
+  /**
+   * Claims the output of a fulfilled pull mode request
+   * @param requestId the ID of the VRF request
+   * @returns the request output, as it would have been passed to fulfillRandomness
+   * @description frees the result box and refunds its cost to the requester address
+   */
+  public claimRandomness(requestId: uint64): VrfOutput {
+    // get result from the box
+    const result: RandomnessResult = clone(this.results(requestId).value)
+    // only the requester can read its output, the requester app or the requester account if there is no app
+    if (result.requesterAppId === 0) {
+      assert(Txn.sender === result.requesterAddress.native, ERR_MUST_BE_REQUESTER)
+    } else {
+      assert(Global.callerApplicationId === result.requesterAppId, ERR_MUST_BE_REQUESTER)
+    }
+
+    // refund the result box cost paid to the Requester
+    this._refund(result.subscriptionId, result.requesterAddress, result.boxMbr, NOTE_RESULT_BOX_MBR_REFUND)
+
+    emit<RandomnessClaimed>({
+      requestId: requestId,
+      requesterAppId: result.requesterAppId,
+      requesterAddress: result.requesterAddress,
+    })
+
+    // delete the box
+    this.results(requestId).delete()
+
+    return result.output
+  }
+
+  /**
+   * Gets a request
+   * @param requestId the ID of the VRF request
+   * @returns whether the request is pending, and the request (zeroed if it isn't)
+   */
+  @readonly
+  public getRequest(requestId: uint64): [boolean, RandomnessRequest] {
+    if (this.requests(requestId).exists) {
+      return [true, clone(this.requests(requestId).value)]
+    }
+
+    return [
+      false,
+      {
+        createdAt: 0,
+        requesterAppId: 0,
+        requesterAddress: new arc4.Address(),
+        round: 0,
+        costs: {
+          fees: 0,
+          boxMbr: 0,
+          callbackFee: 0,
+          resultBoxMbr: 0,
+          archiveBoxMbr: 0,
+          premium: 0,
+          previousKeyVerifyFee: 0,
+        },
+        options: {
+          salt: new arc4.StaticBytes<32>(op.bzero(32)),
+          numWords: 0,
+          callbackFee: 0,
+          pullMode: false,
+          archive: false,
+        },
+        subscriptionId: 0,
+        overpayment: 0,
+        stalePenalty: 0,
+        interval: 0,
+        remainingDeliveries: 0,
+        callback: { appId: 0, selector: new arc4.StaticBytes<4>(op.bzero(4)) },
+      },
+    ]
+  }
+
+  /**
+   * Checks if a request is waiting to be completed or cancelled
+   * @param requestId the ID of the VRF request
+   * @returns true if the request is pending
+   */
+  @readonly
+  public isPending(requestId: uint64): boolean {
+    return this.requests(requestId).exists
+  }
+
+  /**
+   * Gets the status of a request ID
+   * @param requestId the ID of the VRF request
+   * @returns REQUEST_STATUS_NONE if it never existed, REQUEST_STATUS_PENDING, REQUEST_STATUS_FULFILLED or REQUEST_STATUS_CANCELLED
+   */
+  @readonly
+  public getRequestStatus(requestId: uint64): uint64 {
+    if (this.requests(requestId).exists) {
+      return REQUEST_STATUS_PENDING
+    }
+    // request IDs start at 1
+    if (requestId === 0 || requestId >= this.nextRequestId.value) {
+      return REQUEST_STATUS_NONE
+    }
+
+    const page: uint64 = requestId / (CANCELLED_PAGE_SIZE * 8)
+    if (
+      this.cancelledRequests(page).exists &&
+      op.getBit(this.cancelledRequests(page).value, requestId % (CANCELLED_PAGE_SIZE * 8))
+    ) {
+      return REQUEST_STATUS_CANCELLED
+    }
+
+    return REQUEST_STATUS_FULFILLED
+  }
+
+  /**
+   * Gets the output of a fulfilled pull mode request without claiming it
+   * @param requestId the ID of the VRF request
+   * @returns the request output
+   */
+  @readonly
+  public getResult(requestId: uint64): VrfOutput {
+    assert(this.results(requestId).exists, ERR_NO_RESULT)
+
+    return this.results(requestId).value.output
+  }
+
+  /**
+   * Sets the premium charged for every new request
+   * @param premium the premium in microAlgos, 0 to only charge the costs
+   * @description pending requests keep the premium they were created with
+   */
+  public setPremium(premium: uint64): void {
+    this.onlyManager()
+
+    this.premium.value = premium
+
+    emit<PremiumUpdated>({ premium: premium })
+  }
+
+  /**
+   * Withdraws earned premiums to the manager
+   * @param amount the amount to withdraw, up to the treasury
+   * @description funds owed to requesters (costs of pending requests, subscription balances) are never touched
+   */
+  public withdrawTreasury(amount: uint64): void {
+    this.onlyManager()
+    assert(amount <= this.treasury.value, ERR_INSUFFICIENT_TREASURY)
+
+    this.treasury.value -= amount
+
+    itxn
+      .payment({
+        receiver: this.manager().native,
+        amount: amount,
+        note: NOTE_TREASURY_WITHDRAWAL,
+        fee: 0,
+      })
+      .submit()
+
+    emit<TreasuryWithdrawn>({ amount: amount, receiver: this.manager() })
+  }
+
+  /**
+   * Posts to the operator bond
+   * @param payment payment of the amount to add to the bond
+   */
+  public depositBond(payment: gtxn.PaymentTxn): void {
+    this.onlyManager()
+    assertMatch(payment, { receiver: Global.currentApplicationAddress }, ERR_BOND_PAYMENT_MUST_BE_VALID)
+
+    this.bond.value += payment.amount
+
+    emit<BondDeposited>({ amount: payment.amount, bond: this.bond.value })
+  }
+
+  /**
+   * Sets the penalty paid from the bond for new requests cancelled once stale
+   * @param stalePenalty the penalty in microAlgos, 0 to not compensate new requests
+   * @description pending requests keep the penalty they were created with
+   */
+  public setStalePenalty(stalePenalty: uint64): void {
+    this.onlyManager()
+
+    const previousStalePenalty = this.stalePenalty.value
+    this.stalePenalty.value = stalePenalty
+
+    emit<StalePenaltyUpdated>({ previousStalePenalty: previousStalePenalty, stalePenalty: stalePenalty })
+  }
+
+  /**
+   * Increases the delay between requesting and making a bond withdrawal
+   * @param bondWithdrawalDelay rounds between requesting and making a bond withdrawal
+   * @description the delay can only grow, so requesters can rely on the bond being there
+   */
+  public setBondWithdrawalDelay(bondWithdrawalDelay: uint64): void {
+    this.onlyManager()
+    assert(bondWithdrawalDelay >= this.bondWithdrawalDelay.value, ERR_BOND_WITHDRAWAL_DELAY_CANNOT_BE_LOWERED)
+
+    const previousBondWithdrawalDelay = this.bondWithdrawalDelay.value
+    this.bondWithdrawalDelay.value = bondWithdrawalDelay
+
+    emit<BondWithdrawalDelayUpdated>({
+      previousBondWithdrawalDelay: previousBondWithdrawalDelay,
+      bondWithdrawalDelay: bondWithdrawalDelay,
+    })
+  }
+
+  /**
+   * Requests a bond withdrawal, it can be made once the bond withdrawal delay has passed
+   * @param amount the amount to withdraw
+   * @description replaces any requested withdrawal, restarting the delay
+   */
+  public requestBondWithdrawal(amount: uint64): void {
+    this.onlyManager()
+    assert(amount <= this.bond.value - this.lockedBond.value, ERR_BOND_TOO_LOW)
+
+    const readyAt: uint64 = Global.round + this.bondWithdrawalDelay.value
+    this.pendingBondWithdrawal.value = { amount: amount, readyAt: readyAt }
+
+    emit<BondWithdrawalRequested>({ amount: amount, readyAt: readyAt })
+  }
+
+  /**
+   * Cancels the requested bond withdrawal
+   */
+  public cancelBondWithdrawal(): void {
+    this.onlyManager()
+    assert(this.pendingBondWithdrawal.hasValue, ERR_NO_PENDING_BOND_WITHDRAWAL)
+
+    const amount = this.pendingBondWithdrawal.value.amount
+    this.pendingBondWithdrawal.delete()
+
+    emit<BondWithdrawalCancelled>({ amount: amount })
+  }
+
+  /**
+   * Makes the requested bond withdrawal to the manager
+   * @description the stale penalties of pending requests are never withdrawn, even if they were taken on after
+   * the withdrawal was requested
+   */
+  public withdrawBond(): void {
+    this.onlyManager()
+    assert(this.pendingBondWithdrawal.hasValue, ERR_NO_PENDING_BOND_WITHDRAWAL)
+    const { amount, readyAt } = this.pendingBondWithdrawal.value
+    assert(Global.round >= readyAt, ERR_BOND_WITHDRAWAL_NOT_READY)
+    assert(amount <= this.bond.value - this.lockedBond.value, ERR_BOND_TOO_LOW)
+
+    this.bond.value -= amount
+    this.pendingBondWithdrawal.delete()
+
+    itxn
+      .payment({
+        receiver: this.manager().native,
+        amount: amount,
+        note: NOTE_BOND_WITHDRAWAL,
+        fee: 0,
+      })
+      .submit()
+
+    emit<BondWithdrawn>({ amount: amount, receiver: this.manager() })
+  }
+
+  /**
+   * Sets the default pending requests quota of requester apps
+   * @param maxPendingRequestsPerApp max pending requests of a single requester app, 0 for no quota
+   */
+  public setMaxPendingRequestsPerApp(maxPendingRequestsPerApp: uint64): void {
+    this.onlyManager()
+
+    this.maxPendingRequestsPerApp.value = maxPendingRequestsPerApp
+
+    emit<MaxPendingRequestsPerAppUpdated>({ maxPendingRequestsPerApp: maxPendingRequestsPerApp })
+  }
+
+  /**
+   * Sets the pending requests quota of a specific requester app, replacing maxPendingRequestsPerApp
+   * @param requesterAppId the application ID of the requester, 0 for account requests
+   * @param quota max pending requests of the requester app, 0 for no quota
+   * @param mbrPayment payment covering the override box cost when it is created, refunded to the manager on removal
+   */
+  public setQuotaOverride(requesterAppId: uint64, quota: uint64, mbrPayment: gtxn.PaymentTxn): void {
+    this.onlyManager()
+    // only a new override adds a box
+    if (!this.quotaOverrides(requesterAppId).exists) {
+      assertMatch(
+        mbrPayment,
+        {
+          receiver: Global.currentApplicationAddress,
+          amount: { greaterThanEq: this.getQuotaOverrideBoxMbr() },
+        },
+        ERR_QUOTA_PAYMENT_MUST_BE_VALID,
+      )
+    }
+
+    this.quotaOverrides(requesterAppId).value = quota
+
+    emit<QuotaOverrideSet>({ requesterAppId: requesterAppId, quota: quota })
+  }
+
+  /**
+   * Removes the quota override of a requester app, it goes back to maxPendingRequestsPerApp
+   * @param requesterAppId the application ID of the requester, 0 for account requests
+   */
+  public removeQuotaOverride(requesterAppId: uint64): void {
+    this.onlyManager()
+    assert(this.quotaOverrides(requesterAppId).exists, ERR_NO_QUOTA_OVERRIDE)
+
+    this.quotaOverrides(requesterAppId).delete()
+
+    itxn
+      .payment({
+        receiver: this.manager().native,
+        amount: this.getQuotaOverrideBoxMbr(),
+        note: NOTE_QUOTA_BOX_MBR_REFUND,
+        fee: 0,
+      })
+      .submit()
+
+    emit<QuotaOverrideRemoved>({ requesterAppId: requesterAppId })
+  }
+
+  /**
+   * Sets who can create requests
+   * @param accessMode ACCESS_MODE_OPEN, ACCESS_MODE_ALLOWLIST or ACCESS_MODE_DENYLIST
+   * @description the lists are kept when switching modes, only the list of the active mode is checked
+   */
+  public setAccessMode(accessMode: uint64): void {
+    this.onlyManager()
+    assert(accessMode <= ACCESS_MODE_DENYLIST, ERR_INVALID_ACCESS_MODE)
+
+    this.accessMode.value = accessMode
+
+    emit<AccessModeUpdated>({ accessMode: accessMode })
+  }
+
+  /**
+   * Allows a requester app to create requests in allowlist mode
+   * @param requesterAppId the application ID of the requester, 0 for account requests
+   * @param mbrPayment payment covering the list box cost, refunded to the manager on removal
+   */
+  public addToAllowlist(requesterAppId: uint64, mbrPayment: gtxn.PaymentTxn): void {
+    this.onlyManager()
+    assert(!this.allowlist(requesterAppId).exists, ERR_ALREADY_LISTED)
+    this._assertListPayment(mbrPayment)
+
+    this.allowlist(requesterAppId).value = true
+
+    emit<AllowlistUpdated>({ requesterAppId: requesterAppId, allowed: true })
+  }
+
+  /**
+   * Removes a requester app from the allowlist
+   * @param requesterAppId the application ID of the requester, 0 for account requests
+   */
+  public removeFromAllowlist(requesterAppId: uint64): void {
+    this.onlyManager()
+    assert(this.allowlist(requesterAppId).exists, ERR_NOT_LISTED)
+
+    this.allowlist(requesterAppId).delete()
+    this._refundListBoxMbr()
+
+    emit<AllowlistUpdated>({ requesterAppId: requesterAppId, allowed: false })
+  }
+
+  /**
+   * Stops a requester app from creating requests in denylist mode
+   * @param requesterAppId the application ID of the requester, 0 for account requests
+   * @param mbrPayment payment covering the list box cost, refunded to the manager on removal
+   */
+  public addToDenylist(requesterAppId: uint64, mbrPayment: gtxn.PaymentTxn): void {
+    this.onlyManager()
+    assert(!this.denylist(requesterAppId).exists, ERR_ALREADY_LISTED)
+    this._assertListPayment(mbrPayment)
+
+    this.denylist(requesterAppId).value = true
+
+    emit<DenylistUpdated>({ requesterAppId: requesterAppId, denied: true })
+  }
+
+  /**
+   * Removes a requester app from the denylist
+   * @param requesterAppId the application ID of the requester, 0 for account requests
+   */
+  public removeFromDenylist(requesterAppId: uint64): void {
+    this.onlyManager()
+    assert(this.denylist(requesterAppId).exists, ERR_NOT_LISTED)
+
+    this.denylist(requesterAppId).delete()
+    this._refundListBoxMbr()
+
+    emit<DenylistUpdated>({ requesterAppId: requesterAppId, denied: false })
+  }
+
+  /**
+   * Ensures a list box cost is paid to the app, the box cost must not come out of requesters funds
+   * @param mbrPayment payment covering the list box cost
+   */
+  private _assertListPayment(mbrPayment: gtxn.PaymentTxn): void {
+    assertMatch(
+      mbrPayment,
+      {
+        receiver: Global.currentApplicationAddress,
+        amount: { greaterThanEq: this.getListBoxMbr() },
+      },
+      ERR_LIST_PAYMENT_MUST_BE_VALID,
+    )
+  }
+
+  /**
+   * Refunds the cost of a deleted list box to the manager
+   */
+  private _refundListBoxMbr(): void {
+    itxn
+      .payment({
+        receiver: this.manager().native,
+        amount: this.getListBoxMbr(),
+        note: NOTE_LIST_BOX_MBR_REFUND,
+        fee: 0,
+      })
+      .submit()
+  }
+
+  /**
+   * Sets how long archived outputs are kept for
+   * @param archiveRetention rounds an archived output is kept for after its round, 0 to keep outputs forever
+   * @description applies to outputs that are already archived too
+   */
+  public setArchiveRetention(archiveRetention: uint64): void {
+    this.onlyManager()
+
+    this.archiveRetention.value = archiveRetention
+
+    emit<ArchiveRetentionUpdated>({ archiveRetention: archiveRetention })
+  }
+
+  /**
+   * Prunes the archived output of a round once the archive retention has expired
+   * @param round the archived round
+   * @description anyone can prune, the archive box cost is refunded to whoever paid for it
+   */
+  public pruneRandomness(round: uint64): void {
+    const archived: ArchivedRandomness = clone(this.archive(round).value)
+    // outputs are kept forever when there is no retention
+    assert(
+      this.archiveRetention.value > 0 && Global.round > round + this.archiveRetention.value,
+      ERR_ARCHIVE_RETENTION_NOT_EXPIRED,
+    )
+
+    // refund the archive box cost to its payer
+    this._refund(archived.subscriptionId, archived.payer, archived.boxMbr, NOTE_ARCHIVE_BOX_MBR_REFUND)
+
+    emit<RandomnessPruned>({ round: round })
+
+    // delete the box
+    this.archive(round).delete()
+  }
+
+  /**
+   * Gets the archived VRF output of a round
+   * @param round the archived round
+   * @returns the verified VRF output of the round
+   */
+  @readonly
+  public getRandomness(round: uint64): VrfOutput {
+    assert(this.archive(round).exists, ERR_ROUND_NOT_ARCHIVED)
+
+    return this.archive(round).value.vrfOutput
+  }
+
+  /**
+   *
+   * Convenience function to get associated costs with using the beacon service
+   * @param options the request options, the costs depend on them
+   * @returns RandomnessRequestCosts object containing fees, boxMbr, callbackFee, resultBoxMbr, archiveBoxMbr and
+   * premium costs
+   */
+  @readonly
+  public getCosts(options: RandomnessRequestOptions): RandomnessRequestCosts {
+    // 8x the normal txn budget to use vrf_verify alone, refunded when another request of the batch pays for it
+    // another 8x while the previous public key is accepted, refunded unless the proof is only valid for that key
+    // 2 inner txns, fees to caller and box refund to requeste
+    // 1x app call txn (base external txn)
+    // 1x app call itxn to call fulfillRandomness (from Beacon app), pull mode requests are never called back
+    // ... if there is any more fees, user should cover them (potential)
+    // 0.012 * minTxnFee base cost from the ap (0.011 for pull mode)
+    const numCallbackTxns: uint64 = options.pullMode ? 0 : 1
+    const numRequiredTxns: uint64 = VRF_VERIFY_TXNS + 2 + 1 + numCallbackTxns
+    // extra opcode budget (1x txn per 700) to expand the random words, rounded up
+    const numWordsTxns: uint64 = (options.numWords * WORD_EXPANSION_OPCODE_COST + 699) / 700
+    // the request can be fulfilled with the previous public key during its overlap window, verifying it twice
+    const previousKeyVerifyFee: uint64 = this._isPreviousPublicKeyActive() ? Global.minTxnFee * VRF_VERIFY_TXNS : 0
+    // work out required fee
+    const txnFees: uint64 = Global.minTxnFee * (numRequiredTxns + numWordsTxns) + previousKeyVerifyFee
+    const keySize: uint64 = this.requests.keyPrefix.length + arc4.sizeOf<uint64>() /* size of uint64 in bytes = 8 */
+    // fixed size, includes the request options (the words are expanded on completion, never stored)
+    const boxSize: uint64 = arc4.sizeOf<RandomnessRequest>()
+
+    // every request also pays for the pending requests counter of its requester, as any of them can be the one
+    // creating it. Sized for the larger counter of an account (keyed by address) so app and account requests cost
+    // the same
+    const counterKeySize: uint64 = this.pendingRequestsByAccount.keyPrefix.length + arc4.sizeOf<arc4.Address>()
+    const counterBoxMbr: uint64 = BOX_CREATE_COST + BOX_BYTE_COST * (counterKeySize + arc4.sizeOf<uint64>())
+
+    // in k-of-n mode, every request also pays for the pending requests counter of its round, as for the counter of
+    // its requester
+    const roundCounterBoxMbr: uint64 = this.operatorThreshold.value > 0 ? this.getRoundRequestsBoxMbr() : 0
+
+    // every request also pays for a page of the cancelled requests bitmap, only kept by the first cancelled request
+    // of the page (refunded otherwise)
+    const boxMbr: uint64 =
+      BOX_CREATE_COST +
+      BOX_BYTE_COST * (keySize + boxSize) +
+      counterBoxMbr +
+      roundCounterBoxMbr +
+      this.getCancelledPageBoxMbr()
+
+    // pull mode requests keep their output in a second box until it is claimed
+    let resultBoxMbr: uint64 = 0
+    if (options.pullMode) {
+      const resultKeySize: uint64 = this.results.keyPrefix.length + arc4.sizeOf<uint64>()
+      resultBoxMbr = BOX_CREATE_COST + BOX_BYTE_COST * (resultKeySize + arc4.sizeOf<RandomnessResult>())
+    }
+
+    // archiving requests pay for the round box, refunded if the round is already archived on completion
+    let archiveBoxMbr: uint64 = 0
+    if (options.archive) {
+      const archiveKeySize: uint64 = this.archive.keyPrefix.length + arc4.sizeOf<uint64>()
+      archiveBoxMbr = BOX_CREATE_COST + BOX_BYTE_COST * (archiveKeySize + arc4.sizeOf<ArchivedRandomness>())
+    }
+
+    // callbackFee is declared by the requester, forwarded as is to the callback
+    return {
+      fees: txnFees,
+      boxMbr: boxMbr,
+      callbackFee: options.callbackFee,
+      resultBoxMbr: resultBoxMbr,
+      archiveBoxMbr: archiveBoxMbr,
+      premium: this.premium.value,
+      previousKeyVerifyFee: previousKeyVerifyFee,
+    }
+  }
+
+  /**
+   * Convenience function to get the costs of running a subscription
+   * @returns SubscriptionCosts object containing the subscription and consumer box costs
+   */
+  @readonly
+  public getSubscriptionCosts(): SubscriptionCosts {
+    const keySize: uint64 = this.subscriptions.keyPrefix.length + arc4.sizeOf<uint64>()
+    const boxMbr: uint64 = BOX_CREATE_COST + BOX_BYTE_COST * (keySize + arc4.sizeOf<Subscription>())
+
+    const consumerKeySize: uint64 = this.consumers.keyPrefix.length + arc4.sizeOf<uint64>()
+    const consumerBoxMbr: uint64 = BOX_CREATE_COST + BOX_BYTE_COST * (consumerKeySize + arc4.sizeOf<uint64>())
+
+    return { boxMbr: boxMbr, consumerBoxMbr: consumerBoxMbr }
+  }
+
+  /**
+   * Convenience function to get the box cost of an allowlist or denylist entry
+   * @returns the box cost paid when listing a requester app
+   */
+  @readonly
+  public getListBoxMbr(): uint64 {
+    // both lists have prefixes of the same length
+    const keySize: uint64 = this.allowlist.keyPrefix.length + arc4.sizeOf<uint64>()
+
+    return BOX_CREATE_COST + BOX_BYTE_COST * (keySize + arc4.sizeOf<boolean>())
+  }
+
+  /**
+   * Convenience function to get the box cost of a page of the cancelled requests bitmap
+   * @returns the box cost included in the boxMbr of every request, kept by the first cancelled request of a page
+   */
+  @readonly
+  public getCancelledPageBoxMbr(): uint64 {
+    const keySize: uint64 = this.cancelledRequests.keyPrefix.length + arc4.sizeOf<uint64>()
+
+    return BOX_CREATE_COST + BOX_BYTE_COST * (keySize + CANCELLED_PAGE_SIZE)
+  }
+
+  /**
+   * Checks if a callback app approved a requester app
+   * @param callbackAppId the application ID of the callback app
+   * @param requesterAppId the application ID of the requester app
+   * @returns true if the requester app can create requests delivered to the callback app
+   */
+  @readonly
+  public isCallbackApproved(callbackAppId: uint64, requesterAppId: uint64): boolean {
+    // an app can always be called back for its own requests
+    if (callbackAppId === requesterAppId) {
+      return true
+    }
+
+    return this.callbackApprovals(this._callbackApprovalKey(callbackAppId, requesterAppId)).exists
+  }
+
+  /**
+   * Convenience function to get the box cost of a callback approval
+   * @returns the box cost paid when a callback app approves a requester app
+   */
+  @readonly
+  public getCallbackApprovalBoxMbr(): uint64 {
+    // keyed by the callback and requester app IDs
+    const keySize: uint64 = this.callbackApprovals.keyPrefix.length + arc4.sizeOf<uint64>() * 2
+
+    return BOX_CREATE_COST + BOX_BYTE_COST * (keySize + arc4.sizeOf<boolean>())
+  }
+
+  /**
+   * Convenience function to get the box cost of a paused requester app
+   * @returns the box cost paid when pausing a requester app
+   */
+  @readonly
+  public getPausedRequesterBoxMbr(): uint64 {
+    const keySize: uint64 = this.pausedRequesters.keyPrefix.length + arc4.sizeOf<uint64>()
+
+    return BOX_CREATE_COST + BOX_BYTE_COST * (keySize + arc4.sizeOf<boolean>())
+  }
+
+  /**
+   * Convenience function to get the amount to pay for a recurring request
+   * @param options the request options
+   * @param deliveries the number of deliveries
+   * @returns the costs of every delivery, the request box cost is only paid once
+   */
+  @readonly
+  public getRecurringCosts(options: RandomnessRequestOptions, deliveries: uint64): uint64 {
+    return this._sumPrepaidCosts(this.getCosts(options), deliveries)
+  }
+
+  /**
+   * Convenience function to get the box cost of an operator
+   * @returns the box cost paid when adding an operator
+   */
+  @readonly
+  public getOperatorBoxMbr(): uint64 {
+    const keySize: uint64 = this.operators.keyPrefix.length + arc4.sizeOf<arc4.Address>()
+
+    return BOX_CREATE_COST + BOX_BYTE_COST * (keySize + arc4.sizeOf<Operator>())
+  }
+
+  /**
+   * Convenience function to get the box cost of the pending requests counter of a round
+   * @returns the box cost included in the boxMbr of every request in k-of-n mode
+   */
+  @readonly
+  public getRoundRequestsBoxMbr(): uint64 {
+    const keySize: uint64 = this.roundRequests.keyPrefix.length + arc4.sizeOf<uint64>()
+
+    return BOX_CREATE_COST + BOX_BYTE_COST * (keySize + arc4.sizeOf<uint64>())
+  }
+
+  /**
+   * Convenience function to get the box cost of the operator proofs of a round
+   * @returns the box cost paid with the first proof of a round
+   */
+  @readonly
+  public getSubmissionsBoxMbr(): uint64 {
+    const keySize: uint64 = this.submissions.keyPrefix.length + arc4.sizeOf<uint64>()
+
+    return BOX_CREATE_COST + BOX_BYTE_COST * (keySize + arc4.sizeOf<RoundSubmissions>())
+  }
+
+  /**
+   * Convenience function to get the box cost of a quota override
+   * @returns the box cost paid when setting a quota override
+   */
+  @readonly
+  public getQuotaOverrideBoxMbr(): uint64 {
+    const keySize: uint64 = this.quotaOverrides.keyPrefix.length + arc4.sizeOf<uint64>()
 
-    return { fees: txnFees, boxMbr: boxMbr }
+    return BOX_CREATE_COST + BOX_BYTE_COST * (keySize + arc4.sizeOf<uint64>())
   }
 }
@@ -8,6 +8,9 @@ import { RandomnessBeaconFactory } from '../artifacts/randomness_beacon/Randomne
 
 import libvrf from '../../../libvrf'
 
+// request options used by the ExampleCaller (no salt, single output)
+const requestOptions = { salt: new Uint8Array(32), numWords: 0n, callbackFee: 0n, pullMode: false, archive: false }
+
 describe('RandomnessBeacon contract', () => {
   const localnet = algorandFixture()
 
@@ -75,6 +78,20 @@ describe('RandomnessBeacon contract', () => {
       amount: algos(0.1),
     })
 
+    // the deployer also completes requests in these tests
+    const fulfillerBoxMbr = await appClient.getFulfillerBoxMbr()
+    await appClient.send.addFulfiller({
+      args: {
+        fulfiller: account.toString(),
+        mbrPayment: localnet.algorand.createTransaction.payment({
+          sender: account,
+          receiver: appClient.appAddress,
+          amount: microAlgos(fulfillerBoxMbr),
+        }),
+      },
+      populateAppCallResources: true,
+    })
+
     appClient.state.box.requests.getMap()
     return { client: appClient, publicKey, secretKey }
   }
@@ -103,7 +120,7 @@ describe('RandomnessBeacon contract', () => {
     const { client: exampleCallerApp } = await deployExampleCaller(testAccount, client.appId)
 
     // TODO: build paymentxn to cover the fees
-    const { fees, boxMbr } = await client.getCosts()
+    const { fees, boxMbr } = await client.getCosts({ args: { options: requestOptions } })
     const payment = localnet.context.algorand.createTransaction.payment({
       sender: testAccount,
       receiver: exampleCallerApp.appAddress,
@@ -136,7 +153,7 @@ describe('RandomnessBeacon contract', () => {
         const acc = await generateAccount({ initialFunds: (1).algos() })
 
         // TODO: build paymentxn to cover the fees
-        const { fees, boxMbr } = await client.getCosts()
+        const { fees, boxMbr } = await client.getCosts({ args: { options: requestOptions } })
         const payment = algorand.createTransaction.payment({
           sender: acc,
           receiver: exampleCallerApp.appAddress,
@@ -165,7 +182,7 @@ describe('RandomnessBeacon contract', () => {
     const { client: exampleCallerApp } = await deployExampleCaller(testAccount, client.appId)
 
     // get fees from readonly func on app
-    const { fees, boxMbr } = await client.getCosts()
+    const { fees, boxMbr } = await client.getCosts({ args: { options: requestOptions } })
     // create payment txn
     const payment = localnet.context.algorand.createTransaction.payment({
       sender: testAccount,
@@ -219,7 +236,7 @@ describe('RandomnessBeacon contract', () => {
 
     const exampleRequester = await localnet.context.generateAccount({ initialFunds: (10).algos() })
 
-    const { fees, boxMbr } = await client.getCosts()
+    const { fees, boxMbr } = await client.getCosts({ args: { options: requestOptions } })
     const payment = algorand.createTransaction.payment({
       sender: exampleRequester.addr,
       receiver: exampleCallerApp.appAddress,
@@ -286,7 +303,7 @@ describe('RandomnessBeacon contract', () => {
         const acc = await generateAccount({ initialFunds: (1).algos() })
 
         // TODO: build paymentxn to cover the fees
-        const { fees, boxMbr } = await client.getCosts()
+        const { fees, boxMbr } = await client.getCosts({ args: { options: requestOptions } })
         const payment = algorand.createTransaction.payment({
           sender: acc,
           receiver: exampleCallerApp.appAddress,
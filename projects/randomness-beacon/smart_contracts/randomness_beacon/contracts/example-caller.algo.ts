@@ -2,26 +2,36 @@ import {
   abimethod,
   Application,
   arc4,
+  assert,
   Contract,
   Global,
   GlobalState,
   gtxn,
   itxn,
+  op,
   Txn,
   uint64,
 } from '@algorandfoundation/algorand-typescript'
 import { RandomnessBeacon } from '../contract.algo'
-import { IRandomnessBeaconRequester, VrfOutput } from '../types.algo'
+import { IRandomnessBeaconWordsRequester, RandomnessRequestOptions, RandomWord, VrfOutput } from '../types.algo'
 
-export class ExampleCaller extends Contract implements IRandomnessBeaconRequester {
+const ERR_ONLY_BEACON = 'only the beacon app can deliver randomness'
+const ERR_UNKNOWN_REQUEST = 'request must have been created by this app'
+
+export class ExampleCaller extends Contract implements IRandomnessBeaconWordsRequester {
   // beacon app
   beaconApp = GlobalState<Application>({ key: 'beaconApp' })
   // used to track
   totalFulfilled = GlobalState<uint64>({ key: 'totalFulfilled', initialValue: 0 })
   // to store last vrf output
   output = GlobalState<VrfOutput>({ key: 'output' })
-  // store request ID
+  // store the ID of the last request created, this example only expects one request at a time (an app with many
+  // pending requests should keep their IDs, e.g. in a box map)
   requestId = GlobalState<uint64>({ key: 'requestId' })
+  // to store the first word of the last random words
+  firstWord = GlobalState<RandomWord>({ key: 'firstWord' })
+  // used to track the total words received
+  totalWords = GlobalState<uint64>({ key: 'totalWords', initialValue: 0 })
 
   @abimethod({ onCreate: 'require' })
   createApplication(beaconApp: Application): void {
@@ -34,18 +44,64 @@ export class ExampleCaller extends Contract implements IRandomnessBeaconRequeste
       amount: costsPayment.amount,
     })
 
+    const targetRound: uint64 = Global.round + 1
+    // no salt, zero bytes
+    const options: RandomnessRequestOptions = {
+      salt: new arc4.StaticBytes<32>(op.bzero(32)),
+      numWords: 0,
+      callbackFee: 0,
+      pullMode: false,
+      archive: false,
+    }
+
+    const r = arc4.abiCall<typeof RandomnessBeacon.prototype.createRequest>({
+      appId: this.beaconApp.value,
+      args: [new arc4.Address(Txn.sender), targetRound, options, feePayment],
+    })
+    this.requestId.value = r.returnValue
+
+    return [r.returnValue, targetRound]
+  }
+
+  public test2(options: RandomnessRequestOptions, costsPayment: gtxn.PaymentTxn): [uint64, uint64] {
+    const feePayment = itxn.payment({
+      receiver: this.beaconApp.value.address,
+      amount: costsPayment.amount,
+    })
+
     const targetRound: uint64 = Global.round + 1
 
     const r = arc4.abiCall<typeof RandomnessBeacon.prototype.createRequest>({
       appId: this.beaconApp.value,
-      args: [new arc4.Address(Txn.sender), targetRound, feePayment],
+      args: [new arc4.Address(Txn.sender), targetRound, options, feePayment],
     })
+    this.requestId.value = r.returnValue
 
     return [r.returnValue, targetRound]
   }
 
+  /**
+   * Ensures a callback is a delivery of the beacon app for the request this app created
+   * @param requestId the ID of the delivered request
+   */
+  private assertBeaconDelivery(requestId: uint64): void {
+    // anyone can call this app, only the beacon app delivers verified randomness
+    assert(Global.callerApplicationId === this.beaconApp.value.id, ERR_ONLY_BEACON)
+    assert(this.requestId.hasValue && requestId === this.requestId.value, ERR_UNKNOWN_REQUEST)
+  }
+
   public fulfillRandomness(requestId: uint64, requesterAddress: arc4.Address, output: VrfOutput): void {
+    this.assertBeaconDelivery(requestId)
+
     this.output.value = output
     this.totalFulfilled.value += 1
   }
+
+  public fulfillRandomWords(requestId: uint64, requesterAddress: arc4.Address, words: RandomWord[]): void {
+    this.assertBeaconDelivery(requestId)
+
+    this.firstWord.value = words[0]
+    this.totalWords.value += words.length
+    this.totalFulfilled.value += 1
+  }
 }
@@ -0,0 +1,69 @@
+import { Account, arc4, assert, BoxMap, Contract, emit, Txn, uint64 } from '@algorandfoundation/algorand-typescript'
+import { BOX_BYTE_COST, BOX_CREATE_COST, FulfillerAdded, FulfillerRemoved } from '../types.algo'
+
+const ERR_ONLY_FULFILLER = 'only fulfiller can perform this action'
+const ERR_ALREADY_FULFILLER = 'address is already a fulfiller'
+const ERR_NOT_FULFILLER = 'address is not a fulfiller'
+
+/**
+ * Fulfillable contract, designed to be inherited by other contracts that let a set of operators fulfill work
+ * @remarks Granting and revoking are protected, the parent contract decides who can call them (usually the manager)
+ * and who pays for the fulfiller boxes. There are no fulfillers initially.
+ */
+export class Fulfillable extends Contract {
+  /* box map of authorised fulfillers */
+  private _fulfillers = BoxMap<Account, boolean>({ keyPrefix: 'fulfillers' })
+
+  /**
+   * Only a fulfiller can call this method
+   * @remarks This method is used to ensure that only fulfillers perform certain actions in parent contracts
+   */
+  protected onlyFulfiller(): void {
+    assert(this._fulfillers(Txn.sender).exists, ERR_ONLY_FULFILLER)
+  }
+
+  /**
+   * Authorise a fulfiller, creating its box
+   * @param fulfiller The fulfiller address
+   */
+  protected grantFulfiller(fulfiller: Account): void {
+    assert(!this._fulfillers(fulfiller).exists, ERR_ALREADY_FULFILLER)
+
+    this._fulfillers(fulfiller).value = true
+
+    emit<FulfillerAdded>({ fulfiller: new arc4.Address(fulfiller) })
+  }
+
+  /**
+   * Revoke a fulfiller, deleting its box
+   * @param fulfiller The fulfiller address
+   */
+  protected revokeFulfiller(fulfiller: Account): void {
+    assert(this._fulfillers(fulfiller).exists, ERR_NOT_FULFILLER)
+
+    this._fulfillers(fulfiller).delete()
+
+    emit<FulfillerRemoved>({ fulfiller: new arc4.Address(fulfiller) })
+  }
+
+  /**
+   * Convenience function to check if an address is a fulfiller
+   * @param fulfiller The address to check in arc4 format
+   * @returns true if the address can fulfill
+   */
+  @arc4.abimethod({ readonly: true })
+  public isFulfiller(fulfiller: arc4.Address): boolean {
+    return this._fulfillers(fulfiller.native).exists
+  }
+
+  /**
+   * Convenience function to get the box cost of a fulfiller
+   * @returns the box cost paid when granting a fulfiller
+   */
+  @arc4.abimethod({ readonly: true })
+  public getFulfillerBoxMbr(): uint64 {
+    const keySize: uint64 = this._fulfillers.keyPrefix.length + arc4.sizeOf<arc4.Address>()
+
+    return BOX_CREATE_COST + BOX_BYTE_COST * (keySize + arc4.sizeOf<boolean>())
+  }
+}
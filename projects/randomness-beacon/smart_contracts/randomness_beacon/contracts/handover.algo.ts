@@ -0,0 +1,42 @@
+import { arc4, assert, Global, Txn, uint64 } from '@algorandfoundation/algorand-typescript'
+
+export const ERR_HANDOVER_ZERO_ADDRESS = 'cannot hand over to the zero address'
+export const ERR_ONLY_PROPOSED_HOLDER = 'only the proposed address can accept the handover'
+export const ERR_HANDOVER_NOT_READY = 'handover delay has not passed'
+
+/**
+ * Pending handover of a role (manager, pauser) to a new address
+ * @remarks shared by Managable and Pausable, each mixin stores its own handover in global state
+ */
+export type Handover = {
+  /**
+   * the address proposed to take over the role
+   */
+  proposed: arc4.Address
+  /**
+   * the first round the proposed address can accept the handover
+   */
+  readyAt: uint64
+}
+
+/**
+ * Creates a handover to a new address
+ * @param proposed the address proposed to take over the role
+ * @param delay minimum number of rounds before the handover can be accepted, 0 to accept straight away
+ * @returns the handover to store until it is accepted or cancelled
+ */
+export function proposeHandover(proposed: arc4.Address, delay: uint64): Handover {
+  // the zero address could never accept it
+  assert(proposed.native !== Global.zeroAddress, ERR_HANDOVER_ZERO_ADDRESS)
+
+  return { proposed: proposed, readyAt: Global.round + delay }
+}
+
+/**
+ * Ensures the sender can accept a handover
+ * @param handover the pending handover
+ */
+export function assertCanAcceptHandover(handover: Handover): void {
+  assert(handover.proposed.native === Txn.sender, ERR_ONLY_PROPOSED_HOLDER)
+  assert(Global.round >= handover.readyAt, ERR_HANDOVER_NOT_READY)
+}
@@ -1,13 +1,25 @@
-import { arc4, assert, Contract, Global, GlobalState, Txn } from '@algorandfoundation/algorand-typescript'
+import {
+  arc4,
+  assert,
+  clone,
+  Contract,
+  emit,
+  Global,
+  GlobalState,
+  Txn,
+  uint64,
+} from '@algorandfoundation/algorand-typescript'
+import { ManagerDeleted, ManagerHandoverCancelled, ManagerHandoverProposed, ManagerUpdated } from '../types.algo'
+import { assertCanAcceptHandover, Handover, proposeHandover } from './handover.algo'
 
 const ERR_ONLY_MANAGER = 'only manager can perform this action'
-const ERR_ZERO_ADDRESS = 'manager cannot be zero address'
+const ERR_NO_PENDING_MANAGER = 'no manager handover is pending'
+const ERR_DELETE_NOT_CONFIRMED = 'deleting the manager must be confirmed with the application ID'
 
-// TODO: log arc-28 events for various actions so management state can be viewed on chain easily
 /**
  * Manageable contract, designed to be inherited by other contracts (address will always be set to app creator initially)
  * @remarks This contract is designed to be inherited by other contracts that need a manager.
- * The manager is the only one who can call certain methods, such as updating the manager address.
+ * The manager is the only one who can call certain methods, such as handing over the manager role.
  * The manager is set to the creator of the contract by default.
  */
 export class Managable extends Contract {
@@ -16,6 +28,9 @@ export class Managable extends Contract {
     initialValue: new arc4.Address(Global.creatorAddress),
   })
 
+  /* pending manager handover, set by proposeManager() until it is accepted or cancelled */
+  private _managerHandover = GlobalState<Handover>({ key: 'managerHandover' })
+
   /**
    * Only the manager can call this method
    * @remarks This method is used to ensure that only the manager perform certain actions in parent contracts
@@ -25,27 +40,74 @@ export class Managable extends Contract {
   }
 
   /**
-   * Update the manager of this contract
-   * @param manager The new manager address in arc4 format
+   * Propose a new manager of this contract, the manager only changes once the new manager accepts
+   * @param newManager The proposed manager address in arc4 format
+   * @param delay Minimum number of rounds before the handover can be accepted, 0 to allow it straight away
+   * @remarks Replaces any pending handover
+   */
+  public proposeManager(newManager: arc4.Address, delay: uint64): void {
+    // only the current manager can propose a new manager
+    this.onlyManager()
+
+    const handover = proposeHandover(newManager, delay)
+    this._managerHandover.value = clone(handover)
+
+    emit<ManagerHandoverProposed>({
+      manager: this._manager.value,
+      proposedManager: newManager,
+      readyAt: handover.readyAt,
+    })
+  }
+
+  /**
+   * Accept a pending manager handover, called by the proposed manager
+   */
+  public acceptManager(): void {
+    assert(this._managerHandover.hasValue, ERR_NO_PENDING_MANAGER)
+    const handover = clone(this._managerHandover.value)
+    assertCanAcceptHandover(handover)
+
+    const previousManager = this._manager.value
+    this._manager.value = handover.proposed
+    this._managerHandover.delete()
+
+    emit<ManagerUpdated>({ previousManager: previousManager, manager: handover.proposed })
+  }
+
+  /**
+   * Cancel a pending manager handover
    */
-  public updateManager(newManager: arc4.Address): void {
-    // only the current manager can set a new manager
+  public cancelManagerHandover(): void {
+    // only the current manager can cancel the handover
     this.onlyManager()
-    // ensure the new manager is not the zero address
-    assert(newManager.native !== Global.zeroAddress, ERR_ZERO_ADDRESS)
-    // blindly update the value
-    this._manager.value = newManager
+    assert(this._managerHandover.hasValue, ERR_NO_PENDING_MANAGER)
+
+    const proposedManager = this._managerHandover.value.proposed
+    this._managerHandover.delete()
+
+    emit<ManagerHandoverCancelled>({ manager: this._manager.value, proposedManager: proposedManager })
   }
 
   /**
    * Delete the manager of this contract
+   * @param confirmApplicationId The ID of this application, confirms the call is intended for this contract
    * @remarks This delete's the manager of this contract, disabling all functions that require a manager DANGER!
    */
-  public deleteManager(): void {
+  public deleteManager(confirmApplicationId: uint64): void {
     // only the current manager can delete the manager
     this.onlyManager()
+    // a copy pasted call meant for another app cannot delete the manager
+    assert(confirmApplicationId === Global.currentApplicationId.id, ERR_DELETE_NOT_CONFIRMED)
+
+    const previousManager = this._manager.value
     // set the manager to the zero address
     this._manager.value = new arc4.Address(Global.zeroAddress)
+    // a pending handover would otherwise restore a manager
+    if (this._managerHandover.hasValue) {
+      this._managerHandover.delete()
+    }
+
+    emit<ManagerDeleted>({ previousManager: previousManager })
   }
 
   /**
@@ -1,46 +1,97 @@
-import { arc4, assert, Contract, Global, GlobalState, Txn } from '@algorandfoundation/algorand-typescript'
+import {
+  arc4,
+  assert,
+  clone,
+  Contract,
+  emit,
+  Global,
+  GlobalState,
+  Txn,
+  uint64,
+} from '@algorandfoundation/algorand-typescript'
+import { Paused, PauserHandoverCancelled, PauserHandoverProposed, PauserUpdated, Unpaused } from '../types.algo'
+import { assertCanAcceptHandover, Handover, proposeHandover } from './handover.algo'
 
 const ERR_ONLY_PAUSER = 'only pauser can call this method'
-const ERR_ZERO_ADDRESS = 'pauser cannot be zero address'
+const ERR_PAUSED = 'paused'
+const ERR_NO_SCOPES = 'at least one scope must be given'
+const ERR_NO_PENDING_PAUSER = 'no pauser handover is pending'
 
+// pausing is scoped, the parent contract defines what each bit of the scopes bitmask covers
 export class Pausable extends Contract {
   private _pauser = GlobalState<arc4.Address>({
     key: 'pauser',
     initialValue: new arc4.Address(Global.creatorAddress),
   })
 
-  // initially not paused
-  paused = GlobalState<arc4.Bool>({ key: 'paused', initialValue: new arc4.Bool(false) })
+  // bitmask of the paused scopes, initially not paused
+  pausedScopes = GlobalState<uint64>({ key: 'pausedScopes', initialValue: 0 })
 
-  protected whenNotPaused(): void {
-    assert(!this.paused.value.native)
+  // pending pauser handover, until it is accepted or cancelled
+  private _pauserHandover = GlobalState<Handover>({ key: 'pauserHandover' })
+
+  protected whenNotPaused(scope: uint64): void {
+    assert(!this.isScopePaused(scope), ERR_PAUSED)
+  }
+
+  protected isScopePaused(scope: uint64): boolean {
+    return (this.pausedScopes.value & scope) !== 0
   }
 
   protected onlyPauser(): void {
     assert(this._pauser.value.native === Txn.sender, ERR_ONLY_PAUSER)
   }
 
-  pause(): void {
+  // pauses the given scopes, others are left as they are
+  pause(scopes: uint64): void {
     this.onlyPauser()
+    assert(scopes !== 0, ERR_NO_SCOPES)
 
-    this.paused.value = new arc4.Bool(true)
+    this.pausedScopes.value = this.pausedScopes.value | scopes
 
-    // TODO: log pause event
+    emit<Paused>({ pauser: this._pauser.value, scopes: scopes })
   }
 
-  unpause(): void {
+  // unpauses the given scopes, others are left as they are
+  unpause(scopes: uint64): void {
     this.onlyPauser()
+    assert(scopes !== 0, ERR_NO_SCOPES)
+
+    this.pausedScopes.value = this.pausedScopes.value ^ (this.pausedScopes.value & scopes)
+
+    emit<Unpaused>({ pauser: this._pauser.value, scopes: scopes })
+  }
+
+  // the pauser only changes once the new pauser accepts, after at least delay rounds
+  proposePauser(_newPauser: arc4.Address, delay: uint64): void {
+    this.onlyPauser()
+
+    const handover = proposeHandover(_newPauser, delay)
+    this._pauserHandover.value = clone(handover)
+
+    emit<PauserHandoverProposed>({ pauser: this._pauser.value, proposedPauser: _newPauser, readyAt: handover.readyAt })
+  }
+
+  acceptPauser(): void {
+    assert(this._pauserHandover.hasValue, ERR_NO_PENDING_PAUSER)
+    const handover = clone(this._pauserHandover.value)
+    assertCanAcceptHandover(handover)
+
+    const previousPauser = this._pauser.value
+    this._pauser.value = handover.proposed
+    this._pauserHandover.delete()
 
-    this.paused.value = new arc4.Bool(false)
+    emit<PauserUpdated>({ previousPauser: previousPauser, pauser: handover.proposed })
   }
 
-  updatePauser(_newPauser: arc4.Address): void {
+  cancelPauserHandover(): void {
     this.onlyPauser()
+    assert(this._pauserHandover.hasValue, ERR_NO_PENDING_PAUSER)
 
-    assert(_newPauser.native !== Global.zeroAddress, ERR_ZERO_ADDRESS)
-    this._pauser.value = _newPauser
+    const proposedPauser = this._pauserHandover.value.proposed
+    this._pauserHandover.delete()
 
-    // TODO: log update pauser event
+    emit<PauserHandoverCancelled>({ pauser: this._pauser.value, proposedPauser: proposedPauser })
   }
 
   /**
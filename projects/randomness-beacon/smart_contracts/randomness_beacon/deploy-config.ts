@@ -32,4 +32,20 @@ export async function deploy() {
       receiver: appClient.appAddress,
     })
   }
+
+  // the daemon signs with a fulfiller, defaults to the deployer (the manager) when FULFILLER_ADDRESS is not set
+  const fulfiller = process.env.FULFILLER_ADDRESS ?? deployer.addr.toString()
+  if (!(await appClient.isFulfiller({ args: { fulfiller } }))) {
+    await appClient.send.addFulfiller({
+      args: {
+        fulfiller,
+        mbrPayment: algorand.createTransaction.payment({
+          sender: deployer.addr,
+          receiver: appClient.appAddress,
+          amount: (await appClient.getFulfillerBoxMbr({ args: [] })).microAlgo(),
+        }),
+      },
+    })
+    console.log(`Granted fulfiller ${fulfiller}`)
+  }
 }
@@ -10,14 +10,132 @@ export const ERR_REQUEST_MUST_BE_STALE = 'request must be stale to cancel'
 export const ERR_TIMEOUT_CANNOT_BE_ZERO = 'stale request timeout cannot be zero'
 export const ERR_MAX_PENDING_REQUESTS_CANNOT_BE_ZERO = 'max pending requests cannot be zero'
 export const ERR_MAX_FUTURE_ROUNDS_CANNOT_BE_ZERO = 'max future rounds cannot be zero'
+export const ERR_PUBLIC_KEY_UNCHANGED = 'public key must differ from the current public key'
+export const ERR_NO_PREVIOUS_PUBLIC_KEY = 'no previous public key to retire'
+export const ERR_NO_REQUEST_IDS = 'must provide at least one request id'
+export const ERR_REQUEST_ROUND_MISMATCH = 'request must target the proof round'
+export const ERR_NUM_WORDS_EXCEEDS_MAX = 'num words cannot exceed max num words'
+export const ERR_PULL_MODE_OPTIONS = 'pull mode requests cannot ask for words or a callback fee'
+export const ERR_MUST_BE_REQUESTER = 'must be called by the requester'
+export const ERR_ACCOUNT_REQUEST_MUST_USE_PULL_MODE = 'account requests must use pull mode'
+export const ERR_NO_RESULT = 'result must exist'
+export const ERR_ONLY_SUBSCRIPTION_OWNER = 'only the subscription owner can perform this action'
+export const ERR_INSUFFICIENT_SUBSCRIPTION_BALANCE = 'subscription balance must cover the costs'
+export const ERR_CONSUMER_ALREADY_REGISTERED = 'consumer is already registered to a subscription'
+export const ERR_CONSUMER_NOT_REGISTERED = 'consumer must be registered to the subscription'
+export const ERR_SUBSCRIPTION_BALANCES = 'subscription balances must be withdrawn'
+export const ERR_CONSUMER_MUST_CONSENT = 'consumer must be registered by the consumer app or its creator'
+export const ERR_SUBSCRIPTION_HAS_PENDING_REQUESTS = 'subscription must have no pending requests'
+export const ERR_SUBSCRIPTION_HAS_CONSUMERS = 'subscription consumers must be removed'
+export const ERR_OPEN_SUBSCRIPTIONS = 'subscriptions must be closed'
+export const ERR_DEPOSIT_PAYMENT_MUST_BE_VALID = 'deposit payment must be valid'
+export const ERR_INSUFFICIENT_TREASURY = 'cannot withdraw more than the treasury'
+export const ERR_ROUND_NOT_ARCHIVED = 'round randomness must be archived'
+export const ERR_ARCHIVE_RETENTION_NOT_EXPIRED = 'archive retention must have expired to prune'
+export const ERR_INVALID_ACCESS_MODE = 'access mode must be open, allowlist or denylist'
+export const ERR_REQUESTER_NOT_ALLOWED = 'requester app is not allowed to create requests'
+export const ERR_ALREADY_LISTED = 'requester app is already listed'
+export const ERR_NOT_LISTED = 'requester app must be listed'
+export const ERR_LIST_PAYMENT_MUST_BE_VALID = 'list payment must cover the box cost'
+export const ERR_MAX_PENDING_REQUESTS_PER_APP = 'requester app cannot exceed its pending requests quota'
+export const ERR_NO_QUOTA_OVERRIDE = 'requester app must have a quota override'
+export const ERR_QUOTA_PAYMENT_MUST_BE_VALID = 'quota payment must cover the box cost'
+export const ERR_FULFILLER_PAYMENT_MUST_BE_VALID = 'fulfiller payment must cover the box cost'
+export const ERR_INVALID_UPDATE_POLICY = 'update policy must be open, timelocked or locked'
+export const ERR_UPDATE_POLICY_CANNOT_BE_LOOSENED = 'update policy and delay can only be tightened'
+export const ERR_UPDATES_LOCKED = 'application updates are permanently locked'
+export const ERR_DELETION_LOCKED = 'application is permanently locked, it cannot be deleted'
+export const ERR_UPDATES_NOT_TIMELOCKED = 'application updates must be timelocked'
+export const ERR_NO_PENDING_UPDATE = 'an update must be announced'
+export const ERR_UPDATE_NOT_READY = 'update delay has not passed'
+export const ERR_UPDATE_NOT_ANNOUNCED = 'approval program must match the announced update'
+export const ERR_REQUESTER_PAUSED = 'requester app is paused'
+export const ERR_REQUESTER_ALREADY_PAUSED = 'requester app is already paused'
+export const ERR_REQUESTER_NOT_PAUSED = 'requester app must be paused'
+export const ERR_PAUSE_PAYMENT_MUST_BE_VALID = 'pause payment must cover the box cost'
+export const ERR_BOND_TOO_LOW = 'bond must cover the stale penalty of every pending request'
+export const ERR_BOND_PAYMENT_MUST_BE_VALID = 'bond payment must be valid'
+export const ERR_BOND_WITHDRAWAL_DELAY_CANNOT_BE_LOWERED = 'bond withdrawal delay can only be increased'
+export const ERR_NO_PENDING_BOND_WITHDRAWAL = 'a bond withdrawal must be requested'
+export const ERR_BOND_WITHDRAWAL_NOT_READY = 'bond withdrawal delay has not passed'
+export const ERR_ONLY_OPERATOR = 'only an operator can perform this action'
+export const ERR_ALREADY_OPERATOR = 'address is already an operator'
+export const ERR_MAX_OPERATORS = 'cannot exceed max operators'
+export const ERR_OPERATOR_PAYMENT_MUST_BE_VALID = 'operator payment must cover the box cost'
+export const ERR_INVALID_OPERATOR_THRESHOLD = 'operator threshold cannot exceed the number of operators'
+export const ERR_MULTI_OPERATOR_MODE = 'requests must be completed with operator proofs when a threshold is set'
+export const ERR_SINGLE_OPERATOR_MODE = 'operator proofs require an operator threshold'
+export const ERR_ALREADY_SUBMITTED = 'operator has already submitted a proof for this round'
+export const ERR_ROUND_ALREADY_AGGREGATED = 'round already has enough operator proofs'
+export const ERR_ROUND_NOT_AGGREGATED = 'round must have enough operator proofs'
+export const ERR_SUBMISSION_PAYMENT_MUST_BE_VALID = 'submission payment must cover the box cost'
+export const ERR_SUBMISSIONS_NOT_EXPIRED = 'round block seed must be out of reach to prune its submissions'
+export const ERR_OPERATORS_LOCKED = 'operators cannot change while requests are pending'
+export const ERR_ROUND_HAS_PENDING_REQUESTS = 'aggregated round must have no pending requests'
+export const ERR_INVALID_RECURRENCE = 'recurring requests need an interval and at least two deliveries'
+export const ERR_RECURRING_PULL_MODE = 'recurring requests cannot use pull mode'
+export const ERR_INVALID_CALLBACK_APP = 'callback app must be another application'
+export const ERR_CUSTOM_CALLBACK_OPTIONS = 'custom callbacks cannot use pull mode, custom methods cannot ask for words'
+export const ERR_CALLBACK_NOT_APPROVED = 'callback app must approve the requester app'
+export const ERR_CALLBACK_ALREADY_APPROVED = 'requester app is already approved by the callback app'
+export const ERR_CALLBACK_MUST_CONSENT = 'callback approvals must be set by the callback app or its creator'
+export const ERR_CALLBACK_APPROVAL_PAYMENT_MUST_BE_VALID = 'callback approval payment must cover the box cost'
+export const ERR_CANCELLED_PAGES = 'cancelled request pages must be deleted'
+export const ERR_CANCELLED_PAGE_NOT_FOUND = 'cancelled request page must exist'
+export const ERR_CREATION_MUST_BE_PAUSED = 'request creation must be paused'
 // https://developer.algorand.org/articles/smart-contract-storage-boxes/
 export const BOX_CREATE_COST: uint64 = 2500
 export const BOX_BYTE_COST: uint64 = 400
+// max operators in k-of-n mode, submissions track them in a uint64 bitmask
+export const MAX_OPERATORS: uint64 = 64
+// rounds after which the block seed of a round can no longer be read, so no proof of it can be verified
+export const BLOCK_SEED_LOOKBACK: uint64 = 1002
+// max random words a single request can ask for
+export const MAX_NUM_WORDS: uint64 = 32
+// opcode budget needed to expand a single random word (sha512_256 + concat + itob)
+export const WORD_EXPANSION_OPCODE_COST: uint64 = 60
+// txns worth of opcode budget needed by vrf_verify, paid once per verified proof
+export const VRF_VERIFY_TXNS: uint64 = 8
+// who can create requests, checked against the requester app ID (0 for account requests)
+export const ACCESS_MODE_OPEN: uint64 = 0
+export const ACCESS_MODE_ALLOWLIST: uint64 = 1
+export const ACCESS_MODE_DENYLIST: uint64 = 2
+// how the manager can update the application, policies can only move towards locked
+export const UPDATE_POLICY_OPEN: uint64 = 0
+export const UPDATE_POLICY_TIMELOCKED: uint64 = 1
+export const UPDATE_POLICY_LOCKED: uint64 = 2
+// status of a request ID, finished requests are told apart with a bitmap of cancelled request IDs
+export const REQUEST_STATUS_NONE: uint64 = 0
+export const REQUEST_STATUS_PENDING: uint64 = 1
+export const REQUEST_STATUS_FULFILLED: uint64 = 2
+export const REQUEST_STATUS_CANCELLED: uint64 = 3
+// bytes per page of the cancelled requests bitmap, a page covers 8 * CANCELLED_PAGE_SIZE request IDs
+export const CANCELLED_PAGE_SIZE: uint64 = 64
+// pause scopes, bits of the Pausable scopes bitmask
+export const PAUSE_SCOPE_CREATION: uint64 = 1
+export const PAUSE_SCOPE_FULFILLMENT: uint64 = 2
+export const PAUSE_SCOPE_CANCELLATION: uint64 = 4
 
 export const NOTE_BOX_MBR_REFUND = 'box mbr refund'
+export const NOTE_OVERPAYMENT_REFUND = 'box mbr and overpaid costs refund'
+export const NOTE_CANCELLATION_REFUND = 'cancelled request costs refund'
 export const NOTE_FEES_PAYMENT = 'fees payment for caller'
 export const NOTE_CANCEL_PAYMENT = 'cancellation fees for caller'
 export const NOTE_CLOSE_OUT_REMAINDER = 'close out remainder to manager'
+export const NOTE_RESULT_BOX_MBR_REFUND = 'result box mbr refund'
+export const NOTE_ARCHIVE_BOX_MBR_REFUND = 'archive box mbr refund'
+export const NOTE_VERIFICATION_FEES_REFUND = 'unused vrf_verify fees refund'
+export const NOTE_SUBSCRIPTION_WITHDRAWAL = 'subscription withdrawal'
+export const NOTE_SUBSCRIPTION_CLOSE_REFUND = 'subscription close refund'
+export const NOTE_TREASURY_WITHDRAWAL = 'treasury withdrawal'
+export const NOTE_BOND_WITHDRAWAL = 'bond withdrawal'
+export const NOTE_OPERATOR_BOX_MBR_REFUND = 'operator box mbr refund'
+export const NOTE_SUBMISSIONS_BOX_MBR_REFUND = 'round submissions box mbr refund'
+export const NOTE_LIST_BOX_MBR_REFUND = 'access list box mbr refund'
+export const NOTE_QUOTA_BOX_MBR_REFUND = 'quota override box mbr refund'
+export const NOTE_FULFILLER_BOX_MBR_REFUND = 'fulfiller box mbr refund'
+export const NOTE_PAUSE_BOX_MBR_REFUND = 'paused requester box mbr refund'
+export const NOTE_CALLBACK_APPROVAL_BOX_MBR_REFUND = 'callback approval box mbr refund'
 
 /**
  * Types
@@ -38,6 +156,21 @@ export type VrfProof = bytes<80>
  */
 export type VrfOutput = bytes<64>
 
+/**
+ * The optional salt type a requester can mix into its request output (32 bytes, all zero when unused)
+ */
+export type RequestSalt = arc4.StaticBytes<32>
+
+/**
+ * The ARC-4 method selector type of a custom callback (4 bytes, all zero for the default callbacks)
+ */
+export type MethodSelector = arc4.StaticBytes<4>
+
+/**
+ * A random word expanded from a request output (32 bytes)
+ */
+export type RandomWord = bytes<32>
+
 /**
  * The function signature for the fulfillRandomness function
  */
@@ -46,10 +179,22 @@ export type FulfillRandomnessFunction = (
   requestId: uint64,
   /* the caller/initiator of the request */
   requesterAddress: arc4.Address,
-  /* vrf output */
+  /* request output, derived from the vrf output and the request */
   output: VrfOutput,
 ) => void
 
+/**
+ * The function signature for the fulfillRandomWords function
+ */
+export type FulfillRandomWordsFunction = (
+  /* request id as reference */
+  requestId: uint64,
+  /* the caller/initiator of the request */
+  requesterAddress: arc4.Address,
+  /* random words expanded from the request output, as many as requested */
+  words: RandomWord[],
+) => void
+
 /**
  * Interface that a contract must implement to be able to receive VRF outputs from the RandomnessBeacon
  */
@@ -60,6 +205,16 @@ export interface IRandomnessBeaconRequester {
   fulfillRandomness: FulfillRandomnessFunction
 }
 
+/**
+ * Interface that a contract must implement to also receive random words (requests asking for numWords > 0)
+ */
+export interface IRandomnessBeaconWordsRequester extends IRandomnessBeaconRequester {
+  /**
+   * The function to invoke when a randomness request asking for numWords > 0 is fulfilled
+   */
+  fulfillRandomWords: FulfillRandomWordsFunction
+}
+
 /**
  * Group the costs associated with making a randomness request
  */
@@ -72,6 +227,82 @@ export type RandomnessRequestCosts = {
    * The box cost paid for the request (MBR increase)
    */
   boxMbr: uint64
+  /**
+   * the fee attached to the callback app call, declared by the requester to fund its callback
+   */
+  callbackFee: uint64
+  /**
+   * the result box cost paid for pull mode requests (MBR increase until the result is claimed), 0 otherwise
+   */
+  resultBoxMbr: uint64
+  /**
+   * the archive box cost paid for requests asking to archive the round output (MBR increase until pruned), 0
+   * otherwise. refunded if the round is already archived when the request is fulfilled
+   */
+  archiveBoxMbr: uint64
+  /**
+   * the service premium earned by the beacon operator once the request is fulfilled, refunded if it is cancelled
+   */
+  premium: uint64
+  /**
+   * the part of fees paying for a second vrf_verify, priced while the previous public key is accepted as the request
+   * can be fulfilled with it. refunded if the proof is verified with the active public key
+   */
+  previousKeyVerifyFee: uint64
+}
+
+/**
+ * Group the costs associated with running a subscription
+ */
+export type SubscriptionCosts = {
+  /**
+   * the box cost paid when creating the subscription (MBR increase)
+   */
+  boxMbr: uint64
+  /**
+   * the box cost debited from the subscription balance for every registered consumer (MBR increase)
+   */
+  consumerBoxMbr: uint64
+}
+
+/**
+ * Options set by the requester when creating a randomness request
+ */
+export type RandomnessRequestOptions = {
+  /**
+   * mixed into the request output so requests of the same round get distinct outputs, zero bytes when unused
+   */
+  salt: RequestSalt
+  /**
+   * how many 32 byte words to deliver through fulfillRandomWords (up to MAX_NUM_WORDS), 0 to deliver the
+   * 64 byte output through fulfillRandomness
+   */
+  numWords: uint64
+  /**
+   * fee (in microAlgos) attached to the callback app call, anything above the min txn fee is pooled and can be
+   * used by the callback for its own inner txns or opcode budget, 0 if the callback fits in the default budget
+   */
+  callbackFee: uint64
+  /**
+   * store the request output in a result box to be claimed with claimRandomness() instead of calling back the
+   * requester, numWords and callbackFee must be 0
+   */
+  pullMode: boolean
+  /**
+   * store the verified VRF output of the round in the public archive, readable with getRandomness(round)
+   */
+  archive: boolean
+}
+
+/**
+ * Where the output of a request is delivered
+ */
+export type RandomnessCallback = {
+  /* the application called back, the requester app unless set with createRequestWithCallback(), 0 for none */
+  appId: uint64
+  /* selector of a method with the fulfillRandomness arguments (uint64,address,byte[64])void, zero bytes to call
+   * fulfillRandomness or fulfillRandomWords */
+  selector: MethodSelector
 }
 
 /**
@@ -80,7 +311,7 @@ export type RandomnessRequestCosts = {
 export type RandomnessRequest = {
   /* the round the request was created at */
   createdAt: uint64
-  /* the application ID of the contract making the VRF request */
+  /* the application ID of the contract making the VRF request, 0 for requests made by an account (no callback) */
   requesterAppId: uint64
   /* the address of the account making the VRF request, not the app address */
   requesterAddress: arc4.Address
@@ -88,6 +319,119 @@ export type RandomnessRequest = {
   round: uint64
   /* fee paid in advance for the app call, vrf_verify opcode cost (0.008), the inner txn fulfillRequest (0.001) */
   costs: RandomnessRequestCosts
+  /* the options set by the requester */
+  options: RandomnessRequestOptions
+  /* the subscription the costs were debited from, refunds are credited back to it. 0 if paid with a payment */
+  subscriptionId: uint64
+  /* amount paid above the costs, never paid to the caller, refunded to the requester on completion or cancellation */
+  overpayment: uint64
+  /* paid from the bond to the requester if the request is cancelled once stale, the stalePenalty at creation */
+  stalePenalty: uint64
+  /* rounds between the deliveries of a recurring request, 0 for a single delivery */
+  interval: uint64
+  /* deliveries left including the one for `round`, their costs are prepaid. 1 for a single delivery */
+  remainingDeliveries: uint64
+  /* the app and method the output is delivered to */
+  callback: RandomnessCallback
+}
+
+/**
+ * The output of a pull mode request, stored in a box until claimed
+ */
+export type RandomnessResult = {
+  /* the application ID of the contract that made the VRF request, the only one allowed to claim it */
+  requesterAppId: uint64
+  /* the address of the account that made the VRF request, receives the box cost refund. only this account can
+   claim it when requesterAppId is 0 */
+  requesterAddress: arc4.Address
+  /* the request output, derived from the vrf output and the request */
+  output: VrfOutput
+  /* the box cost paid for the result (MBR increase) */
+  boxMbr: uint64
+  /* the subscription the box cost is credited back to, 0 to refund the requester address */
+  subscriptionId: uint64
+}
+
+/**
+ * The verified VRF output of a round, stored in the public archive
+ */
+export type ArchivedRandomness = {
+  /* the verified VRF output of the round */
+  vrfOutput: VrfOutput
+  /* the round the output was archived at */
+  archivedAt: uint64
+  /* the address that paid for the archive box, receives the box cost refund when pruned */
+  payer: arc4.Address
+  /* the box cost paid for the archived output (MBR increase) */
+  boxMbr: uint64
+  /* the subscription the box cost is credited back to, 0 to refund the payer */
+  subscriptionId: uint64
+}
+
+/**
+ * A prepaid balance that requests of its consumer apps are paid from
+ */
+export type Subscription = {
+  /* the account that registers consumers and can withdraw the balance */
+  owner: arc4.Address
+  /* the funds available to pay for requests, refunds of its requests are credited back to it */
+  balance: uint64
+  /* the box cost paid for the subscription (MBR increase) */
+  boxMbr: uint64
+  /* the pending requests paid from the subscription, it cannot be closed until they are fulfilled or cancelled */
+  pendingRequests: uint64
+  /* the number of consumer apps registered to the subscription */
+  consumers: uint64
+}
+
+/**
+ * An application update announced while updates are timelocked
+ */
+export type PendingUpdate = {
+  /* sha512_256 hash chained over the pages of the new approval program */
+  approvalProgramHash: bytes<32>
+  /* the first round the update can be applied with the delay at announcement */
+  readyAt: uint64
+  /* the round the update was announced, a delay raised afterwards applies from it */
+  announcedAt: uint64
+}
+
+/**
+ * An operator of the k-of-n mode, proving rounds with its own VRF keypair
+ */
+export type Operator = {
+  /* the bit of the operator in RoundSubmissions.operators */
+  index: uint64
+  /* the public key used to verify the proofs of the operator */
+  publicKey: VrfPublicKey
+}
+
+/**
+ * The operator proofs submitted for a round in k-of-n mode
+ */
+export type RoundSubmissions = {
+  /* the number of proofs combined into the round output, the operator threshold at the first proof of the round */
+  threshold: uint64
+  /* bitmask of the operators that submitted a proof, by operator index */
+  operators: uint64
+  /* the number of proofs submitted */
+  count: uint64
+  /* xor of the verified VRF outputs submitted, the round output once threshold proofs were submitted */
+  output: VrfOutput
+  /* the operator that paid for the box, receives the box cost refund when pruned */
+  payer: arc4.Address
+  /* the box cost paid for the submissions (MBR increase) */
+  boxMbr: uint64
+}
+
+/**
+ * A bond withdrawal requested by the manager, held back for the bond withdrawal delay
+ */
+export type BondWithdrawal = {
+  /* the amount to withdraw */
+  amount: uint64
+  /* the first round the withdrawal can be made */
+  readyAt: uint64
 }
 
 /**
@@ -134,6 +478,16 @@ export type RequestCancelled = {
   requesterAddress: arc4.Address
 }
 
+/**
+ * Event emitted when a page of the cancelled requests bitmap is deleted
+ */
+export type CancelledPageDeleted = {
+  /**
+   * the page index, it covered the request IDs page * 8 * CANCELLED_PAGE_SIZE and up
+   */
+  page: uint64
+}
+
 /**
  * Event emitted when a randomness request is fulfilled
  */
@@ -151,19 +505,795 @@ export type RequestFulfilled = {
    */
   requesterAddress: arc4.Address
   /**
-   * the VRF output
+   * the VRF output of the request round (before it is mixed with the request)
    */
   vrfOutput: VrfOutput
+  /**
+   * the salt set by the requester, needed to derive the request output from vrfOutput
+   */
+  salt: RequestSalt
 }
 
 /**
- * A stub class representing the interface of the caller contract that will receive the VRF output
- * only fulfillRandomness is required
+ * Event emitted when a recurring request is fulfilled and scheduled for its next delivery
  */
-export class RandomnessBeaconRequesterStub extends Contract implements IRandomnessBeaconRequester {
-  @abimethod()
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  public fulfillRandomness(requestId: uint64, requesterAddress: arc4.Address, output: VrfOutput): void {
+export type RequestRescheduled = {
+  /**
+   * the unique ID of the request
+   */
+  requestId: uint64
+  /**
+   * the round of the next delivery
+   */
+  round: uint64
+  /**
+   * deliveries left including the next one
+   */
+  remainingDeliveries: uint64
+}
+
+/**
+ * Event emitted when the output of a pull mode request is stored for the requester to claim
+ */
+export type RandomnessStored = {
+  /**
+   * the unique ID of the request
+   */
+  requestId: uint64
+  /**
+   * the application ID of the contract making the VRF request
+   */
+  requesterAppId: uint64
+  /**
+   * the address of the account making the VRF request, not the app address
+   */
+  requesterAddress: arc4.Address
+}
+
+/**
+ * Event emitted when the output of a pull mode request is claimed by the requester
+ */
+export type RandomnessClaimed = {
+  /**
+   * the unique ID of the request
+   */
+  requestId: uint64
+  /**
+   * the application ID of the contract that made the VRF request
+   */
+  requesterAppId: uint64
+  /**
+   * the address of the account that made the VRF request, not the app address
+   */
+  requesterAddress: arc4.Address
+}
+
+/**
+ * Event emitted when the verified VRF output of a round is archived
+ */
+export type RandomnessArchived = {
+  /**
+   * the archived round
+   */
+  round: uint64
+  /**
+   * the verified VRF output of the round
+   */
+  vrfOutput: VrfOutput
+  /**
+   * the address that paid for the archive box
+   */
+  payer: arc4.Address
+}
+
+/**
+ * Event emitted when the archived VRF output of a round is pruned
+ */
+export type RandomnessPruned = {
+  /**
+   * the pruned round
+   */
+  round: uint64
+}
+
+/**
+ * Event emitted when the archive retention is updated
+ */
+export type ArchiveRetentionUpdated = {
+  /**
+   * rounds an archived output is kept for after its round, 0 to keep outputs forever
+   */
+  archiveRetention: uint64
+}
+
+/**
+ * Event emitted when a subscription is created
+ */
+export type SubscriptionCreated = {
+  /**
+   * the unique ID of the subscription
+   */
+  subscriptionId: uint64
+  /**
+   * the account that owns the subscription
+   */
+  owner: arc4.Address
+}
+
+/**
+ * Event emitted when funds are deposited to a subscription
+ */
+export type SubscriptionDeposited = {
+  /**
+   * the unique ID of the subscription
+   */
+  subscriptionId: uint64
+  /**
+   * the amount deposited
+   */
+  amount: uint64
+}
+
+/**
+ * Event emitted when the owner withdraws funds from a subscription
+ */
+export type SubscriptionWithdrawn = {
+  /**
+   * the unique ID of the subscription
+   */
+  subscriptionId: uint64
+  /**
+   * the amount withdrawn
+   */
+  amount: uint64
+}
+
+/**
+ * Event emitted when a subscription is closed
+ */
+export type SubscriptionClosed = {
+  /**
+   * the unique ID of the subscription
+   */
+  subscriptionId: uint64
+  /**
+   * the balance and box cost refunded to the owner
+   */
+  amount: uint64
+}
+
+/**
+ * Event emitted when a consumer app is registered to a subscription
+ */
+export type ConsumerAdded = {
+  /**
+   * the unique ID of the subscription
+   */
+  subscriptionId: uint64
+  /**
+   * the application ID of the consumer
+   */
+  consumerAppId: uint64
+}
+
+/**
+ * Event emitted when a consumer app is removed from a subscription
+ */
+export type ConsumerRemoved = {
+  /**
+   * the unique ID of the subscription
+   */
+  subscriptionId: uint64
+  /**
+   * the application ID of the consumer
+   */
+  consumerAppId: uint64
+}
+
+/**
+ * Event emitted when the per-request premium is updated
+ */
+export type PremiumUpdated = {
+  /**
+   * the premium (in microAlgos) charged for every new request
+   */
+  premium: uint64
+}
+
+/**
+ * Event emitted when the manager withdraws earned premiums from the treasury
+ */
+export type TreasuryWithdrawn = {
+  /**
+   * the amount withdrawn
+   */
+  amount: uint64
+  /**
+   * the address receiving the amount
+   */
+  receiver: arc4.Address
+}
+
+/**
+ * Event emitted when the manager posts to the operator bond
+ */
+export type BondDeposited = {
+  /**
+   * the amount deposited
+   */
+  amount: uint64
+  /**
+   * the bond after the deposit
+   */
+  bond: uint64
+}
+
+/**
+ * Event emitted when the manager requests a bond withdrawal
+ */
+export type BondWithdrawalRequested = {
+  /**
+   * the amount to withdraw
+   */
+  amount: uint64
+  /**
+   * the first round the withdrawal can be made
+   */
+  readyAt: uint64
+}
+
+/**
+ * Event emitted when the manager cancels a requested bond withdrawal
+ */
+export type BondWithdrawalCancelled = {
+  /**
+   * the amount that was to be withdrawn
+   */
+  amount: uint64
+}
+
+/**
+ * Event emitted when the manager withdraws from the operator bond
+ */
+export type BondWithdrawn = {
+  /**
+   * the amount withdrawn
+   */
+  amount: uint64
+  /**
+   * the address receiving the amount
+   */
+  receiver: arc4.Address
+}
+
+/**
+ * Event emitted when the stale penalty of new requests is updated
+ */
+export type StalePenaltyUpdated = {
+  /**
+   * the previous stale penalty
+   */
+  previousStalePenalty: uint64
+  /**
+   * the stale penalty (in microAlgos) paid from the bond for every request cancelled once stale
+   */
+  stalePenalty: uint64
+}
+
+/**
+ * Event emitted when the bond withdrawal delay is increased
+ */
+export type BondWithdrawalDelayUpdated = {
+  /**
+   * the previous bond withdrawal delay
+   */
+  previousBondWithdrawalDelay: uint64
+  /**
+   * the rounds between requesting and making a bond withdrawal
+   */
+  bondWithdrawalDelay: uint64
+}
+
+/**
+ * Event emitted when a stale request is cancelled and its requester is compensated from the bond
+ */
+export type StalePenaltyPaid = {
+  /**
+   * the ID of the cancelled request
+   */
+  requestId: uint64
+  /**
+   * the address of the requester receiving the penalty
+   */
+  requesterAddress: arc4.Address
+  /**
+   * the penalty paid from the bond
+   */
+  amount: uint64
+}
+
+/**
+ * Event emitted when the access mode is updated
+ */
+export type AccessModeUpdated = {
+  /**
+   * ACCESS_MODE_OPEN, ACCESS_MODE_ALLOWLIST or ACCESS_MODE_DENYLIST
+   */
+  accessMode: uint64
+}
+
+/**
+ * Event emitted when a requester app is added to or removed from the allowlist
+ */
+export type AllowlistUpdated = {
+  /**
+   * the application ID of the requester, 0 for account requests
+   */
+  requesterAppId: uint64
+  /**
+   * true if it was added, false if it was removed
+   */
+  allowed: boolean
+}
+
+/**
+ * Event emitted when a requester app is added to or removed from the denylist
+ */
+export type DenylistUpdated = {
+  /**
+   * the application ID of the requester, 0 for account requests
+   */
+  requesterAppId: uint64
+  /**
+   * true if it was added, false if it was removed
+   */
+  denied: boolean
+}
+
+/**
+ * Event emitted when the manager updates maxPendingRequests
+ */
+export type MaxPendingRequestsUpdated = {
+  /**
+   * the maximum number of pending requests allowed at any time, before the update
+   */
+  previousMaxPendingRequests: uint64
+  /**
+   * the maximum number of pending requests allowed at any time
+   */
+  maxPendingRequests: uint64
+}
+
+/**
+ * Event emitted when the manager updates maxFutureRounds
+ */
+export type MaxFutureRoundsUpdated = {
+  /**
+   * the maximum round in the future a request can be targeted, before the update
+   */
+  previousMaxFutureRounds: uint64
+  /**
+   * the maximum round in the future a request can be targeted
+   */
+  maxFutureRounds: uint64
+}
+
+/**
+ * Event emitted when the manager updates staleRequestTimeout
+ */
+export type StaleRequestTimeoutUpdated = {
+  /**
+   * the number of rounds after the target round a request can be cancelled, before the update
+   */
+  previousStaleRequestTimeout: uint64
+  /**
+   * the number of rounds after the target round a request can be cancelled
+   */
+  staleRequestTimeout: uint64
+}
+
+/**
+ * Event emitted when the default pending requests quota of requester apps is updated
+ */
+export type MaxPendingRequestsPerAppUpdated = {
+  /**
+   * max pending requests of a single requester app, 0 for no quota
+   */
+  maxPendingRequestsPerApp: uint64
+}
+
+/**
+ * Event emitted when the pending requests quota of a specific requester app is set
+ */
+export type QuotaOverrideSet = {
+  /**
+   * the application ID of the requester, 0 for account requests
+   */
+  requesterAppId: uint64
+  /**
+   * max pending requests of the requester app, 0 for no quota
+   */
+  quota: uint64
+}
+
+/**
+ * Event emitted when a requester app goes back to the default pending requests quota
+ */
+export type QuotaOverrideRemoved = {
+  /**
+   * the application ID of the requester, 0 for account requests
+   */
+  requesterAppId: uint64
+}
+
+/**
+ * Event emitted when a proposed manager accepts the handover
+ */
+export type ManagerUpdated = {
+  /**
+   * the manager before the update
+   */
+  previousManager: arc4.Address
+  /**
+   * the new manager
+   */
+  manager: arc4.Address
+}
+
+/**
+ * Event emitted when the manager proposes a new manager
+ */
+export type ManagerHandoverProposed = {
+  /**
+   * the current manager
+   */
+  manager: arc4.Address
+  /**
+   * the proposed manager, who has to accept the handover
+   */
+  proposedManager: arc4.Address
+  /**
+   * the first round the handover can be accepted
+   */
+  readyAt: uint64
+}
+
+/**
+ * Event emitted when the manager cancels a pending manager handover
+ */
+export type ManagerHandoverCancelled = {
+  /**
+   * the current manager
+   */
+  manager: arc4.Address
+  /**
+   * the proposed manager of the cancelled handover
+   */
+  proposedManager: arc4.Address
+}
+
+/**
+ * Event emitted when the manager is deleted, disabling every manager only method
+ */
+export type ManagerDeleted = {
+  /**
+   * the manager before the deletion
+   */
+  previousManager: arc4.Address
+}
+
+/**
+ * Event emitted when scopes of the contract are paused
+ */
+export type Paused = {
+  /**
+   * the pauser who paused the scopes
+   */
+  pauser: arc4.Address
+  /**
+   * bitmask of the scopes paused by this call (PAUSE_SCOPE_*)
+   */
+  scopes: uint64
+}
+
+/**
+ * Event emitted when scopes of the contract are unpaused
+ */
+export type Unpaused = {
+  /**
+   * the pauser who unpaused the scopes
+   */
+  pauser: arc4.Address
+  /**
+   * bitmask of the scopes unpaused by this call (PAUSE_SCOPE_*)
+   */
+  scopes: uint64
+}
+
+/**
+ * Event emitted when the pauser stops a requester app from creating requests
+ */
+export type RequesterPaused = {
+  /**
+   * the pauser who paused the requester app
+   */
+  pauser: arc4.Address
+  /**
+   * the application ID of the requester, 0 for account requests
+   */
+  requesterAppId: uint64
+}
+
+/**
+ * Event emitted when the pauser lets a paused requester app create requests again
+ */
+export type RequesterUnpaused = {
+  /**
+   * the pauser who unpaused the requester app
+   */
+  pauser: arc4.Address
+  /**
+   * the application ID of the requester, 0 for account requests
+   */
+  requesterAppId: uint64
+}
+
+/**
+ * Event emitted when the pauser proposes a new pauser
+ */
+export type PauserHandoverProposed = {
+  /**
+   * the current pauser
+   */
+  pauser: arc4.Address
+  /**
+   * the proposed pauser, who has to accept the handover
+   */
+  proposedPauser: arc4.Address
+  /**
+   * the first round the handover can be accepted
+   */
+  readyAt: uint64
+}
+
+/**
+ * Event emitted when the pauser cancels a pending pauser handover
+ */
+export type PauserHandoverCancelled = {
+  /**
+   * the current pauser
+   */
+  pauser: arc4.Address
+  /**
+   * the proposed pauser of the cancelled handover
+   */
+  proposedPauser: arc4.Address
+}
+
+/**
+ * Event emitted when a proposed pauser accepts the handover
+ */
+export type PauserUpdated = {
+  /**
+   * the pauser before the update
+   */
+  previousPauser: arc4.Address
+  /**
+   * the new pauser
+   */
+  pauser: arc4.Address
+}
+
+/**
+ * Event emitted when the manager changes how the application can be updated
+ */
+export type UpdatePolicyUpdated = {
+  /**
+   * the update policy before the change
+   */
+  previousUpdatePolicy: uint64
+  /**
+   * the update policy (open, timelocked or locked)
+   */
+  updatePolicy: uint64
+  /**
+   * rounds between announcing and applying an update when timelocked
+   */
+  updateDelay: uint64
+}
+
+/**
+ * Event emitted when the manager announces a timelocked update
+ */
+export type UpdateAnnounced = {
+  /**
+   * sha512_256 hash chained over the pages of the new approval program
+   */
+  approvalProgramHash: bytes<32>
+  /**
+   * the first round the update can be applied
+   */
+  readyAt: uint64
+}
+
+/**
+ * Event emitted when the manager cancels an announced update
+ */
+export type UpdateCancelled = {
+  /**
+   * hash of the approval program of the cancelled update
+   */
+  approvalProgramHash: bytes<32>
+}
+
+/**
+ * Event emitted when the application is updated
+ */
+export type ApplicationUpdated = {
+  /**
+   * sha512_256 hash chained over the pages of the new approval program
+   */
+  approvalProgramHash: bytes<32>
+  /**
+   * the update policy the update was applied under
+   */
+  updatePolicy: uint64
+}
+
+/**
+ * Event emitted when an address is authorised to fulfill requests
+ */
+export type FulfillerAdded = {
+  /**
+   * the fulfiller address
+   */
+  fulfiller: arc4.Address
+}
+
+/**
+ * Event emitted when an address can no longer fulfill requests
+ */
+export type FulfillerRemoved = {
+  /**
+   * the fulfiller address
+   */
+  fulfiller: arc4.Address
+}
+
+/**
+ * Event emitted when the VRF public key is rotated
+ */
+export type PublicKeyRotated = {
+  /**
+   * the public key that was active before the rotation
+   */
+  previousPublicKey: VrfPublicKey
+  /**
+   * the new active public key
+   */
+  publicKey: VrfPublicKey
+  /**
+   * the round from which proofs of the previous public key are no longer accepted
+   */
+  previousPublicKeyExpiresAt: uint64
+}
+
+/**
+ * Event emitted when the previous VRF public key is retired before its overlap window ends
+ */
+export type PublicKeyRetired = {
+  /**
+   * the public key that is no longer accepted
+   */
+  publicKey: VrfPublicKey
+}
+
+/**
+ * Event emitted when the manager registers a k-of-n operator
+ */
+export type OperatorAdded = {
+  /**
+   * the operator address
+   */
+  operator: arc4.Address
+  /**
+   * the bit of the operator in the round submissions
+   */
+  index: uint64
+  /**
+   * the public key used to verify the proofs of the operator
+   */
+  publicKey: VrfPublicKey
+}
+
+/**
+ * Event emitted when the manager removes a k-of-n operator
+ */
+export type OperatorRemoved = {
+  /**
+   * the operator address
+   */
+  operator: arc4.Address
+}
+
+/**
+ * Event emitted when the number of operator proofs needed for a round is updated
+ */
+export type OperatorThresholdUpdated = {
+  /**
+   * the previous operator threshold
+   */
+  previousOperatorThreshold: uint64
+  /**
+   * the number of operator proofs needed for a round, 0 to use the single public key
+   */
+  operatorThreshold: uint64
+}
+
+/**
+ * Event emitted when an operator submits a verified proof for a round
+ */
+export type ProofSubmitted = {
+  /**
+   * the round proven
+   */
+  round: uint64
+  /**
+   * the operator address
+   */
+  operator: arc4.Address
+  /**
+   * the number of proofs submitted for the round
+   */
+  count: uint64
+}
+
+/**
+ * Event emitted when a round reaches the operator threshold and its output is final
+ */
+export type RoundAggregated = {
+  /**
+   * the round proven
+   */
+  round: uint64
+  /**
+   * the combined VRF output of the round
+   */
+  vrfOutput: VrfOutput
+}
+
+/**
+ * Event emitted when a callback app approves or revokes a requester app
+ */
+export type CallbackApprovalUpdated = {
+  /**
+   * the application ID of the callback app
+   */
+  callbackAppId: uint64
+  /**
+   * the application ID of the requester app
+   */
+  requesterAppId: uint64
+  /**
+   * true if the requester app can deliver to the callback app, false if it was revoked
+   */
+  approved: boolean
+}
+
+/**
+ * A stub class representing the interface of the caller contract that will receive the VRF output
+ * only the callback matching the request numWords is called
+ */
+export class RandomnessBeaconRequesterStub extends Contract implements IRandomnessBeaconWordsRequester {
+  @abimethod()
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public fulfillRandomness(requestId: uint64, requesterAddress: arc4.Address, output: VrfOutput): void {
+    err('not implemented')
+  }
+
+  @abimethod()
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public fulfillRandomWords(requestId: uint64, requesterAddress: arc4.Address, words: RandomWord[]): void {
     err('not implemented')
   }
 }